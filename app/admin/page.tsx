@@ -0,0 +1,299 @@
+/**
+ * Admin Page - User management for admins
+ * Search users, disable accounts, force password resets and impersonate
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { AdminAuditLog } from '@/components/AdminAuditLog';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, MoreHorizontal } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: 'USER' | 'ADMIN';
+  emailVerifiedAt: string | null;
+  mfaEnabledAt: string | null;
+  disabledAt: string | null;
+  passwordResetRequired: boolean;
+  deletionScheduledAt: string | null;
+  lastLoginAt: string | null;
+  createdAt: string;
+  taskCount: number;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export default function AdminPage() {
+  const router = useRouter();
+  const { user, impersonate } = useAuth();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    limit: 20,
+    total: 0,
+    totalPages: 0,
+  });
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [auditRefreshKey, setAuditRefreshKey] = useState(0);
+
+  const isAdmin = user?.role === 'ADMIN';
+
+  const fetchUsers = async (page = 1, searchTerm = search) => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ page: page.toString(), limit: '20' });
+      if (searchTerm) params.append('search', searchTerm);
+
+      const response = await apiClient.get(`/api/admin/users?${params}`);
+      setUsers(response.data.users);
+      setPagination(response.data.pagination);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchUsers(1, '');
+    }
+  }, [isAdmin]);
+
+  const handleSearch = async (term: string) => {
+    setSearch(term);
+    await fetchUsers(1, term);
+  };
+
+  // Run an admin action, then reload the list and the audit log
+  const runAction = async (target: AdminUser, action: string, successMessage: string) => {
+    try {
+      setBusyId(target.id);
+      await apiClient.post(`/api/admin/users/${target.id}/${action}`);
+      toast.success(successMessage);
+      setAuditRefreshKey((key) => key + 1);
+      await fetchUsers(pagination.page);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleForceReset = (target: AdminUser) => {
+    if (!confirm(`Sign ${target.email} out and require a password reset?`)) return;
+    runAction(target, 'force-password-reset', `Reset link sent to ${target.email}`);
+  };
+
+  const handleImpersonate = async (target: AdminUser) => {
+    if (!confirm(`Sign in as ${target.email}? This is recorded in the audit log.`)) return;
+
+    try {
+      setBusyId(target.id);
+      await impersonate(target.id);
+      router.push('/dashboard');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to sign in as user');
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-background">
+        {/* Header */}
+        <header className="border-b border-border bg-card">
+          <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold">Admin</h1>
+              <p className="text-sm text-muted-foreground">User management</p>
+            </div>
+            <Button variant="outline" asChild className="gap-2 bg-transparent">
+              <Link href="/dashboard">
+                <ArrowLeft className="h-4 w-4" />
+                Back to tasks
+              </Link>
+            </Button>
+          </div>
+        </header>
+
+        {/* Main content */}
+        <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+          {!isAdmin ? (
+            <Card className="border border-border text-center py-12">
+              <CardContent>
+                <p className="text-muted-foreground">You do not have access to this page.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card className="border border-border">
+                <CardHeader>
+                  <CardTitle>Users</CardTitle>
+                  <CardDescription>{pagination.total} accounts</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Input
+                    placeholder="Search by email or name..."
+                    value={search}
+                    onChange={(e) => handleSearch(e.target.value)}
+                  />
+
+                  {isLoading && users.length === 0 ? (
+                    <div className="flex items-center justify-center py-6">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>User</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Tasks</TableHead>
+                          <TableHead>Last login</TableHead>
+                          <TableHead className="w-12" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {users.map((account) => (
+                          <TableRow key={account.id}>
+                            <TableCell>
+                              <div className="font-medium">{account.name || account.email}</div>
+                              {account.name && (
+                                <div className="text-xs text-muted-foreground">{account.email}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {account.role === 'ADMIN' && <Badge>Admin</Badge>}
+                                {account.disabledAt && <Badge variant="destructive">Disabled</Badge>}
+                                {account.passwordResetRequired && (
+                                  <Badge variant="outline">Reset required</Badge>
+                                )}
+                                {account.deletionScheduledAt && (
+                                  <Badge variant="outline">Deletion pending</Badge>
+                                )}
+                                {!account.emailVerifiedAt && (
+                                  <Badge variant="outline">Unverified</Badge>
+                                )}
+                                {account.mfaEnabledAt && <Badge variant="secondary">2FA</Badge>}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">{account.taskCount}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {account.lastLoginAt
+                                ? formatDistanceToNow(new Date(account.lastLoginAt), { addSuffix: true })
+                                : 'Never'}
+                            </TableCell>
+                            <TableCell>
+                              {account.id !== user?.id && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      size="icon"
+                                      variant="ghost"
+                                      disabled={busyId === account.id}
+                                    >
+                                      <MoreHorizontal className="h-4 w-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    {account.disabledAt ? (
+                                      <DropdownMenuItem
+                                        onClick={() => runAction(account, 'enable', 'User enabled')}
+                                      >
+                                        Enable account
+                                      </DropdownMenuItem>
+                                    ) : (
+                                      <DropdownMenuItem
+                                        onClick={() => runAction(account, 'disable', 'User disabled')}
+                                      >
+                                        Disable account
+                                      </DropdownMenuItem>
+                                    )}
+                                    <DropdownMenuItem onClick={() => handleForceReset(account)}>
+                                      Force password reset
+                                    </DropdownMenuItem>
+                                    {account.role !== 'ADMIN' && !account.disabledAt && (
+                                      <DropdownMenuItem onClick={() => handleImpersonate(account)}>
+                                        Sign in as user
+                                      </DropdownMenuItem>
+                                    )}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  {/* Pagination */}
+                  {pagination.totalPages > 1 && (
+                    <div className="flex justify-center gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => fetchUsers(Math.max(1, pagination.page - 1))}
+                        disabled={pagination.page === 1 || isLoading}
+                      >
+                        Previous
+                      </Button>
+                      <span className="flex items-center px-4 py-2 text-sm text-muted-foreground">
+                        Page {pagination.page} of {pagination.totalPages}
+                      </span>
+                      <Button
+                        variant="outline"
+                        onClick={() => fetchUsers(Math.min(pagination.totalPages, pagination.page + 1))}
+                        disabled={pagination.page === pagination.totalPages || isLoading}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <AdminAuditLog refreshKey={auditRefreshKey} />
+            </>
+          )}
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
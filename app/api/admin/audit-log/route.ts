@@ -0,0 +1,60 @@
+/**
+ * GET /api/admin/audit-log
+ * Most recent admin actions (admins only)
+ * Headers: Authorization: Bearer <token>
+ * Query params: limit=50
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { isAdmin } from '@/lib/admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins only, and not while signed in as another user
+    if (payload.impersonatorId || !(await isAdmin(payload.userId))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const url = new URL(req.url);
+    const limit = Math.min(200, parseInt(url.searchParams.get('limit') || '50'));
+
+    const events = await prisma.auditLog.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json(
+      { events },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Admin audit log error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
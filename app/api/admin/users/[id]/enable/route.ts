@@ -0,0 +1,76 @@
+/**
+ * POST /api/admin/users/[id]/enable
+ * Re-enable a disabled account (admins only, audited)
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { getSessionMetadata } from '@/lib/sessions';
+import { isAdmin, recordAuditEvent, enableUser } from '@/lib/admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins only, and not while signed in as another user
+    if (payload.impersonatorId || !(await isAdmin(payload.userId))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await enableUser(target.id);
+    await recordAuditEvent(
+      { id: payload.userId, email: payload.email },
+      'user.enable',
+      target,
+      getSessionMetadata(req).ipAddress
+    );
+
+    return NextResponse.json(
+      { message: 'User enabled' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Admin enable user error:', error);
+    return NextResponse.json(
+      { error: 'Failed to enable user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * POST /api/admin/users/[id]/force-password-reset
+ * Sign the user out, block password logins and email a reset link
+ * (admins only, audited)
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { getSessionMetadata } from '@/lib/sessions';
+import { getAppUrl } from '@/lib/emails';
+import { isAdmin, recordAuditEvent, forcePasswordReset } from '@/lib/admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins only, and not while signed in as another user
+    if (payload.impersonatorId || !(await isAdmin(payload.userId))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (target.id === payload.userId) {
+      return NextResponse.json(
+        { error: 'You cannot do this to your own account' },
+        { status: 400 }
+      );
+    }
+
+    await forcePasswordReset(target, getAppUrl(req));
+    await recordAuditEvent(
+      { id: payload.userId, email: payload.email },
+      'user.force_password_reset',
+      target,
+      getSessionMetadata(req).ipAddress
+    );
+
+    return NextResponse.json(
+      { message: 'Password reset required, reset link sent' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Admin force password reset error:', error);
+    return NextResponse.json(
+      { error: 'Failed to force password reset' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * POST /api/admin/users/[id]/impersonate
+ * Sign in as another user (admins only, audited)
+ * Headers: Authorization: Bearer <token>
+ * Returns tokens for a new session of the target user; the session is marked
+ * as impersonated and appears in the user's device list
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken, authTokensResponse } from '@/lib/auth-cookies';
+import { getSessionMetadata } from '@/lib/sessions';
+import { isAdmin, recordAuditEvent, impersonateUser } from '@/lib/admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins only, and not while signed in as another user
+    if (payload.impersonatorId || !(await isAdmin(payload.userId))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (target.id === payload.userId) {
+      return NextResponse.json(
+        { error: 'You cannot do this to your own account' },
+        { status: 400 }
+      );
+    }
+
+    if (target.role === 'ADMIN' || target.disabledAt) {
+      return NextResponse.json(
+        { error: 'Admins and disabled accounts cannot be impersonated' },
+        { status: 403 }
+      );
+    }
+
+    const metadata = getSessionMetadata(req);
+    const tokens = await impersonateUser(
+      { id: payload.userId, email: payload.email },
+      target,
+      metadata
+    );
+    await recordAuditEvent(
+      { id: payload.userId, email: payload.email },
+      'user.impersonate',
+      target,
+      metadata.ipAddress
+    );
+
+    return authTokensResponse(
+      {
+        message: `Signed in as ${target.email}`,
+        user: {
+          id: target.id,
+          email: target.email,
+          name: target.name,
+          emailVerified: !!target.emailVerifiedAt,
+          role: target.role,
+        },
+      },
+      tokens
+    );
+  } catch (error) {
+    console.error('[v0] Admin impersonate user error:', error);
+    return NextResponse.json(
+      { error: 'Failed to impersonate user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * GET /api/admin/users
+ * List users with task counts and last login (admins only)
+ * Headers: Authorization: Bearer <token>
+ * Query params: page=1, limit=20, search=<email or name>
+ */
+
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { isAdmin, listUsers } from '@/lib/admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins only, and not while signed in as another user
+    if (payload.impersonatorId || !(await isAdmin(payload.userId))) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    // Get query parameters
+    const url = new URL(req.url);
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+    const limit = Math.min(100, parseInt(url.searchParams.get('limit') || '20'));
+    const search = url.searchParams.get('search')?.trim() || null;
+
+    const { users, total } = await listUsers(search, page, limit);
+
+    return NextResponse.json(
+      {
+        users,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Admin list users error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
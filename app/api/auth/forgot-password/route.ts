@@ -0,0 +1,49 @@
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link
+ * Body: { email: string }
+ * Always responds with the same message so accounts cannot be enumerated
+ */
+
+import { prisma } from '@/lib/db';
+import { sendPasswordResetEmail } from '@/lib/password-reset';
+import { getAppUrl } from '@/lib/emails';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface ForgotPasswordRequest {
+  email: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: ForgotPasswordRequest = await req.json();
+    const { email } = body;
+
+    // Validation
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (user) {
+      await sendPasswordResetEmail(user, getAppUrl(req));
+    }
+
+    return NextResponse.json(
+      { message: 'If an account exists for that email, a reset link has been sent' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send reset link' },
+      { status: 500 }
+    );
+  }
+}
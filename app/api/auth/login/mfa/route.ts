@@ -0,0 +1,123 @@
+/**
+ * POST /api/auth/login/mfa
+ * Complete a two-factor login started by /api/auth/login
+ * Body: { mfaToken: string, code: string }
+ * code is a 6-digit TOTP code or an unused recovery code
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyMfaPendingToken, verifySecondFactor } from '@/lib/mfa';
+import { issueAuthTokens } from '@/lib/refresh-tokens';
+import { getSessionMetadata } from '@/lib/sessions';
+import { authTokensResponse } from '@/lib/auth-cookies';
+import { cancelAccountDeletion } from '@/lib/account-deletion';
+import { checkLoginRateLimit, recordLoginFailure, resetLoginFailures } from '@/lib/rate-limit';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface MfaLoginRequest {
+  mfaToken: string;
+  code: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: MfaLoginRequest = await req.json();
+    const { mfaToken, code } = body;
+
+    // Validation
+    if (!mfaToken || !code) {
+      return NextResponse.json(
+        { error: 'Login token and code are required' },
+        { status: 400 }
+      );
+    }
+
+    const pending = verifyMfaPendingToken(mfaToken);
+    if (!pending) {
+      return NextResponse.json(
+        { error: 'Login expired, please sign in again' },
+        { status: 401 }
+      );
+    }
+
+    // Code guesses count towards the same account limit as password guesses
+    const { ipAddress } = getSessionMetadata(req);
+    const limit = await checkLoginRateLimit(ipAddress, pending.email);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        {
+          error: limit.locked
+            ? 'Too many failed attempts. Your account is temporarily locked.'
+            : 'Too many failed attempts. Please wait before trying again.',
+          retryAfter: limit.retryAfter,
+          locked: limit.locked,
+        },
+        { status: 429, headers: { 'Retry-After': limit.retryAfter.toString() } }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: pending.userId },
+    });
+
+    if (!user || !(await verifySecondFactor(user.id, code))) {
+      await recordLoginFailure(ipAddress, pending.email);
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    // The account may have been disabled or flagged since the password step
+    if (user.disabledAt) {
+      return NextResponse.json(
+        { error: 'This account has been disabled' },
+        { status: 403 }
+      );
+    }
+
+    if (user.passwordResetRequired) {
+      return NextResponse.json(
+        {
+          error: 'A password reset is required. Check your email for a reset link.',
+          passwordResetRequired: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    await resetLoginFailures(pending.email);
+
+    // Signing in within the deletion grace period keeps the account
+    const deletionCancelled = await cancelAccountDeletion(user.id);
+
+    // Create tokens
+    const tokens = await issueAuthTokens(
+      user,
+      getSessionMetadata(req)
+    );
+
+    return authTokensResponse(
+      {
+        message: deletionCancelled
+          ? 'Login successful, account deletion cancelled'
+          : 'Login successful',
+        deletionCancelled,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: !!user.emailVerifiedAt,
+          role: user.role,
+        },
+      },
+      tokens
+    );
+  } catch (error) {
+    console.error('[v0] MFA login error:', error);
+    return NextResponse.json(
+      { error: 'Failed to login' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,10 +2,20 @@
  * POST /api/auth/login
  * Authenticate user and return JWT tokens
  * Body: { email: string, password: string }
+ * Users with two-factor enabled get { mfaRequired, mfaToken } instead;
+ * finish the login with /api/auth/login/mfa
+ * Repeated failures are answered with 429 and a Retry-After header
+ * Disabled accounts and accounts with a forced password reset get 403
  */
 
 import { prisma } from '@/lib/db';
-import { verifyPassword, createToken } from '@/lib/auth';
+import { verifyPassword, needsRehash, hashPassword } from '@/lib/auth';
+import { issueAuthTokens } from '@/lib/refresh-tokens';
+import { getSessionMetadata } from '@/lib/sessions';
+import { authTokensResponse } from '@/lib/auth-cookies';
+import { createMfaPendingToken } from '@/lib/mfa';
+import { cancelAccountDeletion } from '@/lib/account-deletion';
+import { checkLoginRateLimit, recordLoginFailure, resetLoginFailures } from '@/lib/rate-limit';
 import { NextRequest, NextResponse } from 'next/server';
 
 interface LoginRequest {
@@ -19,19 +29,36 @@ export async function POST(req: NextRequest) {
     const { email, password } = body;
 
     // Validation
-    if (!email || !password) {
+    if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
       return NextResponse.json(
         { error: 'Email and password are required' },
         { status: 400 }
       );
     }
 
+    // Brute-force protection: per-IP and per-account backoff and lockout
+    const { ipAddress } = getSessionMetadata(req);
+    const limit = await checkLoginRateLimit(ipAddress, email);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        {
+          error: limit.locked
+            ? 'Too many failed attempts. Your account is temporarily locked.'
+            : 'Too many failed attempts. Please wait before trying again.',
+          retryAfter: limit.retryAfter,
+          locked: limit.locked,
+        },
+        { status: 429, headers: { 'Retry-After': limit.retryAfter.toString() } }
+      );
+    }
+
     // Find user by email
     const user = await prisma.user.findUnique({
       where: { email },
     });
 
     if (!user) {
+      await recordLoginFailure(ipAddress, email);
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
@@ -40,44 +67,77 @@ export async function POST(req: NextRequest) {
 
     // Verify password
     if (!verifyPassword(password, user.password)) {
+      await recordLoginFailure(ipAddress, email);
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
-    // Create tokens
-    // Convert time strings to seconds: 15m = 900s, 7d = 604800s
-    const accessExpiry = process.env.JWT_EXPIRE_IN?.includes('m') 
-      ? parseInt(process.env.JWT_EXPIRE_IN) * 60 
-      : parseInt(process.env.JWT_EXPIRE_IN || '900');
-    
-    const refreshExpiry = process.env.JWT_REFRESH_EXPIRE_IN?.includes('d')
-      ? parseInt(process.env.JWT_REFRESH_EXPIRE_IN) * 86400
-      : parseInt(process.env.JWT_REFRESH_EXPIRE_IN || '604800');
-
-    const accessToken = createToken(
-      { userId: user.id, email: user.email },
-      accessExpiry
-    );
+    // Upgrade hashes created with an older algorithm or lower cost
+    if (needsRehash(user.password)) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { password: hashPassword(password) },
+      });
+    }
+
+    // Accounts restricted by an admin
+    if (user.disabledAt) {
+      return NextResponse.json(
+        { error: 'This account has been disabled' },
+        { status: 403 }
+      );
+    }
+
+    if (user.passwordResetRequired) {
+      return NextResponse.json(
+        {
+          error: 'A password reset is required. Check your email for a reset link.',
+          passwordResetRequired: true,
+        },
+        { status: 403 }
+      );
+    }
 
-    const refreshToken = createToken(
-      { userId: user.id, email: user.email },
-      refreshExpiry
+    // Two-factor accounts get a short-lived pending token instead of a session
+    if (user.mfaEnabledAt) {
+      return NextResponse.json(
+        {
+          message: 'Two-factor authentication required',
+          mfaRequired: true,
+          mfaToken: createMfaPendingToken(user),
+        },
+        { status: 200 }
+      );
+    }
+
+    await resetLoginFailures(email);
+
+    // Signing in within the deletion grace period keeps the account
+    const deletionCancelled = await cancelAccountDeletion(user.id);
+
+    // Create tokens
+    const tokens = await issueAuthTokens(
+      user,
+      getSessionMetadata(req)
     );
 
-    return NextResponse.json(
+    return authTokensResponse(
       {
-        message: 'Login successful',
+        message: deletionCancelled
+          ? 'Login successful, account deletion cancelled'
+          : 'Login successful',
+        deletionCancelled,
         user: {
           id: user.id,
           email: user.email,
           name: user.name,
+          emailVerified: !!user.emailVerifiedAt,
+          role: user.role,
         },
-        accessToken,
-        refreshToken,
       },
-      { status: 200 }
+      tokens
     );
   } catch (error) {
     console.error('[v0] Login error:', error);
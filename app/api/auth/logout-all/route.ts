@@ -0,0 +1,54 @@
+/**
+ * POST /api/auth/logout-all
+ * Revoke every session of the authenticated user, including the current one
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken, clearAuthCookies } from '@/lib/auth-cookies';
+import { revokeAllSessions } from '@/lib/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot sign the user out everywhere
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await revokeAllSessions(payload.userId);
+
+    const response = NextResponse.json(
+      { message: 'Logged out from all devices', revoked },
+      { status: 200 }
+    );
+    clearAuthCookies(response);
+    return response;
+  } catch (error) {
+    console.error('[v0] Logout all error:', error);
+    return NextResponse.json(
+      { error: 'Failed to logout from all devices' },
+      { status: 500 }
+    );
+  }
+}
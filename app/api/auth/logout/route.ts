@@ -0,0 +1,46 @@
+/**
+ * POST /api/auth/logout
+ * Revoke the current session
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken, clearAuthCookies } from '@/lib/auth-cookies';
+import { revokeSession } from '@/lib/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload || !payload.sessionId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    await revokeSession(payload.sessionId, payload.userId);
+
+    const response = NextResponse.json(
+      { message: 'Logged out successfully' },
+      { status: 200 }
+    );
+    clearAuthCookies(response);
+    return response;
+  } catch (error) {
+    console.error('[v0] Logout error:', error);
+    return NextResponse.json(
+      { error: 'Failed to logout' },
+      { status: 500 }
+    );
+  }
+}
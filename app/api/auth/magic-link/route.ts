@@ -0,0 +1,49 @@
+/**
+ * POST /api/auth/magic-link
+ * Email a single-use, short-lived sign-in link
+ * Body: { email: string }
+ * Always responds with the same message so accounts cannot be enumerated
+ */
+
+import { prisma } from '@/lib/db';
+import { sendMagicLinkEmail } from '@/lib/magic-link';
+import { getAppUrl } from '@/lib/emails';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface MagicLinkRequest {
+  email: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: MagicLinkRequest = await req.json();
+    const { email } = body;
+
+    // Validation
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (user && !user.disabledAt) {
+      await sendMagicLinkEmail(user, getAppUrl(req));
+    }
+
+    return NextResponse.json(
+      { message: 'If an account exists for that email, a sign-in link has been sent' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Magic link error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send sign-in link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * POST /api/auth/magic-link/verify
+ * Exchange the token from a sign-in link for JWT tokens
+ * Body: { token: string }
+ * Returns the same response as /api/auth/login, including { mfaRequired, mfaToken }
+ * for users with two-factor enabled
+ */
+
+import { prisma } from '@/lib/db';
+import { consumeOneTimeToken } from '@/lib/one-time-tokens';
+import { issueAuthTokens } from '@/lib/refresh-tokens';
+import { getSessionMetadata } from '@/lib/sessions';
+import { authTokensResponse } from '@/lib/auth-cookies';
+import { createMfaPendingToken } from '@/lib/mfa';
+import { cancelAccountDeletion } from '@/lib/account-deletion';
+import { claimUnverifiedAccount } from '@/lib/email-verification';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface VerifyMagicLinkRequest {
+  token: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: VerifyMagicLinkRequest = await req.json();
+    const { token } = body;
+
+    // Validation
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumeOneTimeToken(token, 'MAGIC_LINK');
+    let user = userId
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'This sign-in link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    // Accounts restricted by an admin
+    if (user.disabledAt) {
+      return NextResponse.json(
+        { error: 'This account has been disabled' },
+        { status: 403 }
+      );
+    }
+
+    if (user.passwordResetRequired) {
+      return NextResponse.json(
+        {
+          error: 'A password reset is required. Check your email for a reset link.',
+          passwordResetRequired: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Opening the link proves the user owns the address, but not that they set
+    // up the unverified account, so whatever its registrant left behind is dropped
+    if (!user.emailVerifiedAt) {
+      user = await claimUnverifiedAccount(user.id);
+    }
+
+    // The link replaces the password, not the second factor
+    if (user.mfaEnabledAt) {
+      return NextResponse.json(
+        {
+          message: 'Two-factor authentication required',
+          mfaRequired: true,
+          mfaToken: createMfaPendingToken(user),
+        },
+        { status: 200 }
+      );
+    }
+
+    // Signing in within the deletion grace period keeps the account
+    const deletionCancelled = await cancelAccountDeletion(user.id);
+
+    // Create tokens
+    const tokens = await issueAuthTokens(
+      user,
+      getSessionMetadata(req)
+    );
+
+    return authTokensResponse(
+      {
+        message: deletionCancelled
+          ? 'Login successful, account deletion cancelled'
+          : 'Login successful',
+        deletionCancelled,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: !!user.emailVerifiedAt,
+          role: user.role,
+        },
+      },
+      tokens
+    );
+  } catch (error) {
+    console.error('[v0] Magic link verify error:', error);
+    return NextResponse.json(
+      { error: 'Failed to login' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * POST /api/auth/mfa/disable
+ * Turn off two-factor authentication
+ * Headers: Authorization: Bearer <token>
+ * Body: { password: string } (accounts created through SSO set one with
+ *   /api/auth/forgot-password first)
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken, passwordConfirmationError } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface DisableMfaRequest {
+  password: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot change two-factor settings
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    const body: DisableMfaRequest = await req.json();
+    const { password } = body;
+
+    // Validation
+    if (!password) {
+      return NextResponse.json(
+        { error: 'Password is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    const passwordError = passwordConfirmationError(user, password);
+    if (!user || passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 403 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { mfaSecret: null, mfaEnabledAt: null, mfaLastUsedStep: null },
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+    ]);
+
+    return NextResponse.json(
+      { message: 'Two-factor authentication disabled' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] MFA disable error:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * POST /api/auth/mfa/enable
+ * Finish two-factor enrollment by confirming a code from the authenticator app
+ * Headers: Authorization: Bearer <token>
+ * Body: { code: string }
+ * Returns recovery codes; they are only shown this once
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyTotp } from '@/lib/totp';
+import { replaceRecoveryCodes } from '@/lib/mfa';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface EnableMfaRequest {
+  code: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot change two-factor settings
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    const body: EnableMfaRequest = await req.json();
+    const { code } = body;
+
+    // Validation
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    if (!user?.mfaSecret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first' },
+        { status: 400 }
+      );
+    }
+
+    if (user.mfaEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+
+    const step = verifyTotp(user.mfaSecret, code);
+    if (step === null) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaEnabledAt: new Date(), mfaLastUsedStep: step },
+    });
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+    return NextResponse.json(
+      {
+        message: 'Two-factor authentication enabled',
+        recoveryCodes,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] MFA enable error:', error);
+    return NextResponse.json(
+      { error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
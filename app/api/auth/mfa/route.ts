@@ -0,0 +1,55 @@
+/**
+ * GET /api/auth/mfa
+ * Two-factor authentication status for the authenticated user
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { mfaEnabledAt: true },
+    });
+
+    const recoveryCodesRemaining = await prisma.recoveryCode.count({
+      where: { userId: payload.userId, usedAt: null },
+    });
+
+    return NextResponse.json(
+      {
+        enabled: !!user?.mfaEnabledAt,
+        enabledAt: user?.mfaEnabledAt ?? null,
+        recoveryCodesRemaining,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] MFA status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch two-factor status' },
+      { status: 500 }
+    );
+  }
+}
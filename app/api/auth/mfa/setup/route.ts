@@ -0,0 +1,81 @@
+/**
+ * POST /api/auth/mfa/setup
+ * Start two-factor enrollment: generate a TOTP secret for the authenticated user
+ * Headers: Authorization: Bearer <token>
+ * Returns the secret, its otpauth:// URI and a QR code data URL.
+ * Two-factor stays off until the first code is confirmed via /api/auth/mfa/enable
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { buildOtpauthUri, generateTotpSecret } from '@/lib/totp';
+import { NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot change two-factor settings
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.mfaEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaSecret: secret, mfaLastUsedStep: null },
+    });
+
+    const otpauthUri = buildOtpauthUri(secret, user.email);
+    const qrCode = await QRCode.toDataURL(otpauthUri);
+
+    return NextResponse.json(
+      { secret, otpauthUri, qrCode },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] MFA setup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    );
+  }
+}
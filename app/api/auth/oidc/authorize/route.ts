@@ -0,0 +1,47 @@
+/**
+ * GET /api/auth/oidc/authorize
+ * Start single sign-on: redirect to the OpenID Connect provider
+ * State, nonce and the PKCE verifier are kept in a short-lived httpOnly cookie
+ */
+
+import {
+  createAuthorizationRequest,
+  getOidcConfig,
+  getOidcRedirectUri,
+  OIDC_STATE_COOKIE,
+} from '@/lib/oidc';
+import { getAppUrl } from '@/lib/emails';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  const appUrl = getAppUrl(req);
+
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      return NextResponse.redirect(`${appUrl}/sso-callback?error=not_configured`);
+    }
+
+    const { url, authState } = await createAuthorizationRequest(
+      config,
+      getOidcRedirectUri(appUrl)
+    );
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(
+      OIDC_STATE_COOKIE,
+      Buffer.from(JSON.stringify(authState)).toString('base64url'),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/api/auth/oidc',
+        maxAge: 600,
+      }
+    );
+    return response;
+  } catch (error) {
+    console.error('[v0] OIDC authorize error:', error);
+    return NextResponse.redirect(`${appUrl}/sso-callback?error=provider_unavailable`);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * GET /api/auth/oidc/callback
+ * Provider redirect target: validate the response, link the identity to a user
+ * and hand the browser a one-time login code
+ * Query params: code, state (or error from the provider)
+ * Redirects to /sso-callback?code=... or /sso-callback?error=...
+ */
+
+import { createOneTimeToken } from '@/lib/one-time-tokens';
+import {
+  exchangeAuthorizationCode,
+  findOrCreateOidcUser,
+  getOidcConfig,
+  getOidcRedirectUri,
+  OidcAuthState,
+  OIDC_STATE_COOKIE,
+} from '@/lib/oidc';
+import { getAppUrl } from '@/lib/emails';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Login codes only need to survive one redirect and one request
+const SSO_LOGIN_CODE_EXPIRE_IN = 60;
+
+export async function GET(req: NextRequest) {
+  const appUrl = getAppUrl(req);
+
+  // Send the browser to the SSO page, always dropping the state cookie
+  const finish = (query: string) => {
+    const response = NextResponse.redirect(`${appUrl}/sso-callback?${query}`);
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+    return response;
+  };
+
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      return finish('error=not_configured');
+    }
+
+    const params = req.nextUrl.searchParams;
+    if (params.get('error')) {
+      return finish('error=provider_denied');
+    }
+
+    const code = params.get('code');
+    const stateCookie = req.cookies.get(OIDC_STATE_COOKIE)?.value;
+    if (!code || !stateCookie) {
+      return finish('error=invalid_request');
+    }
+
+    const authState: OidcAuthState = JSON.parse(
+      Buffer.from(stateCookie, 'base64url').toString()
+    );
+    if (params.get('state') !== authState.state) {
+      return finish('error=invalid_request');
+    }
+
+    const claims = await exchangeAuthorizationCode(
+      config,
+      code,
+      authState,
+      getOidcRedirectUri(appUrl)
+    );
+
+    const user = await findOrCreateOidcUser(config.issuer, claims);
+    if (!user) {
+      return finish('error=account_not_linked');
+    }
+
+    if (user.disabledAt) {
+      return finish('error=account_disabled');
+    }
+
+    const loginCode = await createOneTimeToken(user.id, 'SSO_LOGIN', SSO_LOGIN_CODE_EXPIRE_IN);
+    return finish(`code=${encodeURIComponent(loginCode)}`);
+  } catch (error) {
+    console.error('[v0] OIDC callback error:', error);
+    return finish('error=sso_failed');
+  }
+}
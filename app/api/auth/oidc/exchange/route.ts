@@ -0,0 +1,101 @@
+/**
+ * POST /api/auth/oidc/exchange
+ * Exchange the one-time code from the SSO callback for tokens
+ * Body: { code: string }
+ * Returns the same response as /api/auth/login, including { mfaRequired, mfaToken }
+ * for users with two-factor enabled
+ */
+
+import { prisma } from '@/lib/db';
+import { consumeOneTimeToken } from '@/lib/one-time-tokens';
+import { issueAuthTokens } from '@/lib/refresh-tokens';
+import { getSessionMetadata } from '@/lib/sessions';
+import { authTokensResponse } from '@/lib/auth-cookies';
+import { createMfaPendingToken } from '@/lib/mfa';
+import { cancelAccountDeletion } from '@/lib/account-deletion';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface ExchangeRequest {
+  code: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: ExchangeRequest = await req.json();
+    const { code } = body;
+
+    // Validation
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Code is required' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumeOneTimeToken(code, 'SSO_LOGIN');
+    const user = userId
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : null;
+
+    if (!user || user.disabledAt) {
+      return NextResponse.json(
+        { error: 'Invalid or expired sign-in code' },
+        { status: 401 }
+      );
+    }
+
+    if (user.passwordResetRequired) {
+      return NextResponse.json(
+        {
+          error: 'A password reset is required. Check your email for a reset link.',
+          passwordResetRequired: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    // The provider replaces the password, not the second factor
+    if (user.mfaEnabledAt) {
+      return NextResponse.json(
+        {
+          message: 'Two-factor authentication required',
+          mfaRequired: true,
+          mfaToken: createMfaPendingToken(user),
+        },
+        { status: 200 }
+      );
+    }
+
+    // Signing in within the deletion grace period keeps the account
+    const deletionCancelled = await cancelAccountDeletion(user.id);
+
+    // Create tokens
+    const tokens = await issueAuthTokens(
+      user,
+      getSessionMetadata(req)
+    );
+
+    return authTokensResponse(
+      {
+        message: deletionCancelled
+          ? 'Login successful, account deletion cancelled'
+          : 'Login successful',
+        deletionCancelled,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: !!user.emailVerifiedAt,
+          role: user.role,
+        },
+      },
+      tokens
+    );
+  } catch (error) {
+    console.error('[v0] OIDC exchange error:', error);
+    return NextResponse.json(
+      { error: 'Failed to login' },
+      { status: 500 }
+    );
+  }
+}
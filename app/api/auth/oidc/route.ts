@@ -0,0 +1,19 @@
+/**
+ * GET /api/auth/oidc
+ * Whether single sign-on is configured, for the login page
+ */
+
+import { getOidcConfig } from '@/lib/oidc';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  const config = getOidcConfig();
+
+  return NextResponse.json(
+    {
+      enabled: !!config,
+      providerName: config?.providerName ?? null,
+    },
+    { status: 200 }
+  );
+}
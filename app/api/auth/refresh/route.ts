@@ -0,0 +1,64 @@
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access/refresh token pair
+ * Body: { refreshToken: string }
+ * In cookie mode the body may be empty; the refresh_token cookie is used instead
+ */
+
+import { rotateRefreshToken } from '@/lib/refresh-tokens';
+import { authTokensResponse, clearAuthCookies, REFRESH_TOKEN_COOKIE } from '@/lib/auth-cookies';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface RefreshRequest {
+  refreshToken?: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: RefreshRequest = await req.json().catch(() => ({}));
+    const refreshToken = body.refreshToken || req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+    // Validation
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Refresh token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status === 'reused') {
+      console.warn('[v0] Refresh token reuse detected, session revoked');
+      const response = NextResponse.json(
+        { error: 'Refresh token has already been used' },
+        { status: 401 }
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+
+    if (result.status === 'invalid') {
+      const response = NextResponse.json(
+        { error: 'Invalid or expired refresh token' },
+        { status: 401 }
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+
+    return authTokensResponse(
+      {
+        message: 'Token refreshed successfully',
+        user: result.user,
+      },
+      result.tokens
+    );
+  } catch (error) {
+    console.error('[v0] Refresh token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh token' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,12 @@
  */
 
 import { prisma } from '@/lib/db';
-import { hashPassword, createToken } from '@/lib/auth';
+import { hashPassword } from '@/lib/auth';
+import { issueAuthTokens } from '@/lib/refresh-tokens';
+import { getSessionMetadata } from '@/lib/sessions';
+import { authTokensResponse } from '@/lib/auth-cookies';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { getAppUrl } from '@/lib/emails';
 import { NextRequest, NextResponse } from 'next/server';
 
 interface RegisterRequest {
@@ -59,34 +64,32 @@ export async function POST(req: NextRequest) {
       },
     });
 
-    // Create tokens
-    // Convert time strings to seconds: 15m = 900s, 7d = 604800s
-    const accessExpiry = process.env.JWT_EXPIRE_IN?.includes('m') 
-      ? parseInt(process.env.JWT_EXPIRE_IN) * 60 
-      : parseInt(process.env.JWT_EXPIRE_IN || '900');
-    
-    const refreshExpiry = process.env.JWT_REFRESH_EXPIRE_IN?.includes('d')
-      ? parseInt(process.env.JWT_REFRESH_EXPIRE_IN) * 86400
-      : parseInt(process.env.JWT_REFRESH_EXPIRE_IN || '604800');
-
-    const accessToken = createToken(
-      { userId: user.id, email: user.email },
-      accessExpiry
-    );
+    // Send verification link; the account works (within policy) even if mail fails
+    try {
+      await sendVerificationEmail(user, getAppUrl(req));
+    } catch (error) {
+      console.error('[v0] Send verification email error:', error);
+    }
 
-    const refreshToken = createToken(
-      { userId: user.id, email: user.email },
-      refreshExpiry
+    // Create tokens
+    const tokens = await issueAuthTokens(
+      user,
+      getSessionMetadata(req)
     );
 
-    return NextResponse.json(
+    return authTokensResponse(
       {
         message: 'User registered successfully',
-        user: { id: user.id, email: user.email, name: user.name },
-        accessToken,
-        refreshToken,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: !!user.emailVerifiedAt,
+          role: user.role,
+        },
       },
-      { status: 201 }
+      tokens,
+      201
     );
   } catch (error) {
     console.error('[v0] Registration error:', error);
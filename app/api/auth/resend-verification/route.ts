@@ -0,0 +1,64 @@
+/**
+ * POST /api/auth/resend-verification
+ * Send a new email verification link to the authenticated user
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { getAppUrl } from '@/lib/emails';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.emailVerifiedAt) {
+      return NextResponse.json(
+        { error: 'Email is already verified' },
+        { status: 400 }
+      );
+    }
+
+    await sendVerificationEmail(user, getAppUrl(req));
+
+    return NextResponse.json(
+      { message: 'Verification email sent' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Resend verification error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send verification email' },
+      { status: 500 }
+    );
+  }
+}
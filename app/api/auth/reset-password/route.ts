@@ -0,0 +1,65 @@
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a reset token from /api/auth/forgot-password
+ * Body: { token: string, password: string }
+ * Signs the user out of every device
+ */
+
+import { prisma } from '@/lib/db';
+import { hashPassword } from '@/lib/auth';
+import { consumeOneTimeToken } from '@/lib/one-time-tokens';
+import { revokeAllSessions } from '@/lib/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: ResetPasswordRequest = await req.json();
+    const { token, password } = body;
+
+    // Validation
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (password.length < 6) {
+      return NextResponse.json(
+        { error: 'Password must be at least 6 characters' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumeOneTimeToken(token, 'PASSWORD_RESET');
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset link' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: hashPassword(password), passwordResetRequired: false },
+    });
+
+    await revokeAllSessions(userId);
+
+    return NextResponse.json(
+      { message: 'Password reset successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Reset password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * DELETE /api/auth/sessions/[id]
+ * Revoke one of the authenticated user's sessions (sign out a device)
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { revokeSession } from '@/lib/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot sign the user's devices out
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    // Revoke session (must belong to user)
+    const revoked = await revokeSession(id, payload.userId);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Session revoked successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Revoke session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    );
+  }
+}
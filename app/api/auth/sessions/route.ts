@@ -0,0 +1,50 @@
+/**
+ * GET /api/auth/sessions
+ * List active sessions (signed-in devices) for the authenticated user
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { listSessions } from '@/lib/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await listSessions(payload.userId);
+
+    return NextResponse.json(
+      {
+        sessions: sessions.map(({ impersonatorId, ...session }) => ({
+          ...session,
+          current: session.id === payload.sessionId,
+          impersonated: !!impersonatorId,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] List sessions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
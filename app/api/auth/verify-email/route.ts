@@ -0,0 +1,37 @@
+/**
+ * GET /api/auth/verify-email
+ * Confirm an email address from the emailed link
+ * Query params: token=<verification token>
+ * Redirects to /verify-email?status=success|invalid
+ */
+
+import { prisma } from '@/lib/db';
+import { consumeOneTimeToken } from '@/lib/one-time-tokens';
+import { getAppUrl } from '@/lib/emails';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  const appUrl = getAppUrl(req);
+
+  try {
+    const token = req.nextUrl.searchParams.get('token');
+    if (!token) {
+      return NextResponse.redirect(`${appUrl}/verify-email?status=invalid`);
+    }
+
+    const userId = await consumeOneTimeToken(token, 'EMAIL_VERIFICATION');
+    if (!userId) {
+      return NextResponse.redirect(`${appUrl}/verify-email?status=invalid`);
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return NextResponse.redirect(`${appUrl}/verify-email?status=success`);
+  } catch (error) {
+    console.error('[v0] Verify email error:', error);
+    return NextResponse.redirect(`${appUrl}/verify-email?status=error`);
+  }
+}
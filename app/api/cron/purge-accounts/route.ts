@@ -0,0 +1,34 @@
+/**
+ * GET /api/cron/purge-accounts
+ * Hard-delete accounts whose deletion grace period has ended
+ * Run daily by Vercel Cron (see vercel.json)
+ * Headers: Authorization: Bearer <CRON_SECRET>
+ */
+
+import { purgeDeletedAccounts } from '@/lib/account-deletion';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await purgeDeletedAccounts();
+
+    return NextResponse.json(
+      { message: 'Deleted accounts purged', deleted },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Purge accounts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge accounts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/me/export
+ * Download all of the authenticated user's data as a zip archive
+ * (profile.json, tasks.json, projects.json, statuses.json, tags.json and tasks.csv)
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { buildAccountExport } from '@/lib/account-export';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const archive = await buildAccountExport(payload.userId);
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const filename = `task-manager-export-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    return new NextResponse(Buffer.from(archive), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[v0] Export data error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * POST /api/me/password
+ * Change the authenticated user's password
+ * Headers: Authorization: Bearer <token>
+ * Body: { currentPassword: string, newPassword: string }
+ * Accounts created through SSO have no current password; they set one with
+ * /api/auth/forgot-password instead
+ * Every other session is signed out; the current one stays active
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken, hashPassword, passwordConfirmationError } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { revokeAllSessions } from '@/lib/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot change the password
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    const body: ChangePasswordRequest = await req.json();
+    const { currentPassword, newPassword } = body;
+
+    // Validation
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: 'Current and new password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (newPassword.length < 6) {
+      return NextResponse.json(
+        { error: 'Password must be at least 6 characters' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    const passwordError = passwordConfirmationError(user, currentPassword, 'Current password is incorrect');
+    if (!user || passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 403 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashPassword(newPassword) },
+    });
+
+    const revoked = await revokeAllSessions(user.id, payload.sessionId);
+
+    return NextResponse.json(
+      { message: 'Password changed successfully', revoked },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Change password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * GET /api/me - Get the authenticated user's profile
+ * PATCH /api/me - Update name, email and/or the saved task sort
+ * DELETE /api/me - Schedule the account for deletion
+ * Headers: Authorization: Bearer <token>
+ * Body (PATCH): { name?: string | null, email?: string,
+ *   taskSort?: string | null (a GET /api/tasks sort parameter, e.g. "-priority,dueAt"; null resets it) }
+ * Body (DELETE): { password: string } (accounts created through SSO set one with
+ *   /api/auth/forgot-password first)
+ * Changing the email marks it unverified and sends a new verification link.
+ * Deletion signs the user out everywhere; signing in within the grace period cancels it
+ * Admins signed in as the user (impersonation) cannot change the email or delete the account
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken, passwordConfirmationError } from '@/lib/auth';
+import { getRequestToken, clearAuthCookies } from '@/lib/auth-cookies';
+import { scheduleAccountDeletion } from '@/lib/account-deletion';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { getAppUrl } from '@/lib/emails';
+import { parseTaskSort } from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface UpdateProfileRequest {
+  name?: string | null;
+  email?: string;
+  taskSort?: string | null;
+}
+
+interface DeleteAccountRequest {
+  password: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: !!user.emailVerifiedAt,
+          role: user.role,
+          taskSort: user.taskSort,
+          createdAt: user.createdAt,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Get profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const body: UpdateProfileRequest = await req.json();
+
+    // Validation
+    if (body.name != null && typeof body.name !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid name' },
+        { status: 400 }
+      );
+    }
+
+    if (body.email !== undefined && typeof body.email !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+
+    const name = body.name === undefined ? undefined : body.name?.trim() || null;
+    const email = body.email?.trim();
+    const taskSort = body.taskSort;
+
+    if (name === undefined && email === undefined && taskSort === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    if (email !== undefined && !EMAIL_PATTERN.test(email)) {
+      return NextResponse.json(
+        { error: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+
+    if (taskSort && (typeof taskSort !== 'string' || !parseTaskSort(taskSort))) {
+      return NextResponse.json(
+        { error: 'Invalid task sort' },
+        { status: 400 }
+      );
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const emailChanged = email !== undefined && email !== current.email;
+
+    // Admins signed in as this user cannot change the email the account signs in with
+    if (emailChanged && payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    if (emailChanged) {
+      const existingUser = await prisma.user.findUnique({
+        where: { email },
+      });
+
+      if (existingUser) {
+        return NextResponse.json(
+          { error: 'Email is already in use' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id: current.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(emailChanged && { email, emailVerifiedAt: null }),
+        ...(taskSort !== undefined && { taskSort: taskSort || null }),
+      },
+    });
+
+    // The new address must be confirmed; the change is kept even if mail fails
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail(user, getAppUrl(req));
+      } catch (error) {
+        console.error('[v0] Send verification email error:', error);
+      }
+    }
+
+    return NextResponse.json(
+      {
+        message: emailChanged
+          ? 'Profile updated, check your inbox to verify the new email'
+          : 'Profile updated successfully',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: !!user.emailVerifiedAt,
+          role: user.role,
+          taskSort: user.taskSort,
+          createdAt: user.createdAt,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Update profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot delete the account
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    const body: DeleteAccountRequest = await req.json();
+
+    // Validation
+    if (!body.password) {
+      return NextResponse.json(
+        { error: 'Password is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+
+    const passwordError = passwordConfirmationError(user, body.password);
+    if (!user || passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 403 }
+      );
+    }
+
+    const deletionScheduledAt = await scheduleAccountDeletion(user.id);
+
+    const response = NextResponse.json(
+      {
+        message: 'Account scheduled for deletion',
+        deletionScheduledAt,
+      },
+      { status: 200 }
+    );
+    clearAuthCookies(response);
+    return response;
+  } catch (error) {
+    console.error('[v0] Delete account error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete account' },
+      { status: 500 }
+    );
+  }
+}
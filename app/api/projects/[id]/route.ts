@@ -0,0 +1,222 @@
+/**
+ * PATCH /api/projects/[id]
+ * Update or archive a project
+ * Body: { name?: string, color?: '#rrggbb', icon?: string, archived?: boolean }
+ * DELETE /api/projects/[id]
+ * Delete a project; its tasks move to the Inbox
+ * Headers: Authorization: Bearer <token | pat_...>
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import {
+  isProjectIcon,
+  isValidHexColor,
+  PROJECT_NAME_MAX_LENGTH,
+  ProjectIconName,
+} from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface UpdateProjectRequest {
+  name?: string;
+  color?: string;
+  icon?: ProjectIconName;
+  archived?: boolean;
+}
+
+/**
+ * Update or archive a project
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify projects
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if project exists and belongs to user
+    const project = await prisma.project.findFirst({
+      where: {
+        id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: UpdateProjectRequest = await req.json();
+    const updateData: any = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > PROJECT_NAME_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Project names must be 1 to ${PROJECT_NAME_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updateData.name = name;
+    }
+
+    if (body.color !== undefined) {
+      if (!isValidHexColor(body.color)) {
+        return NextResponse.json(
+          { error: 'Color must be a hex value like #3b82f6' },
+          { status: 400 }
+        );
+      }
+      updateData.color = body.color;
+    }
+
+    if (body.icon !== undefined) {
+      if (!isProjectIcon(body.icon)) {
+        return NextResponse.json(
+          { error: 'Unknown project icon' },
+          { status: 400 }
+        );
+      }
+      updateData.icon = body.icon;
+    }
+
+    if (body.archived !== undefined) {
+      updateData.archivedAt = body.archived ? project.archivedAt ?? new Date() : null;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const updatedProject = await prisma.project.update({
+      where: { id },
+      data: updateData,
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Project updated successfully',
+        project: updatedProject,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Update project error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a project
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify projects
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Delete project (must belong to user); its tasks keep existing in the Inbox
+    const result = await prisma.project.deleteMany({
+      where: {
+        id,
+        userId: payload.userId,
+      },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Project deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Delete project error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
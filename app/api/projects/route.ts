@@ -0,0 +1,166 @@
+/**
+ * GET /api/projects
+ * List the authenticated user's projects with task and pending counts,
+ * plus the pending count of the Inbox (tasks without a project)
+ * Query params: archived=true to include archived projects
+ * POST /api/projects
+ * Create a project
+ * Headers: Authorization: Bearer <token | pat_...>
+ * Body: { name: string, color?: '#rrggbb', icon?: string }
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import { listProjects } from '@/lib/projects';
+import {
+  isProjectIcon,
+  isValidHexColor,
+  PROJECT_NAME_MAX_LENGTH,
+  ProjectIconName,
+  LABEL_COLORS,
+} from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface CreateProjectRequest {
+  name: string;
+  color?: string;
+  icon?: ProjectIconName;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'read'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    const url = new URL(req.url);
+    const includeArchived = url.searchParams.get('archived') === 'true';
+
+    const { projects, inbox } = await listProjects(payload.userId, includeArchived);
+
+    return NextResponse.json({ projects, inbox }, { status: 200 });
+  } catch (error) {
+    console.error('[v0] Get projects error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch projects' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify projects
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    const body: CreateProjectRequest = await req.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const color = body.color ?? LABEL_COLORS[0];
+    const icon = body.icon ?? 'folder';
+
+    // Validation
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Project name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > PROJECT_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Project names can be at most ${PROJECT_NAME_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidHexColor(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #3b82f6' },
+        { status: 400 }
+      );
+    }
+
+    if (!isProjectIcon(icon)) {
+      return NextResponse.json(
+        { error: 'Unknown project icon' },
+        { status: 400 }
+      );
+    }
+
+    const project = await prisma.project.create({
+      data: {
+        userId: payload.userId,
+        name,
+        color,
+        icon,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Project created successfully',
+        project: { ...project, taskCount: 0, pendingCount: 0 },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[v0] Create project error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    );
+  }
+}
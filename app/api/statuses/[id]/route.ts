@@ -0,0 +1,289 @@
+/**
+ * PATCH /api/statuses/[id]
+ * Update a workflow status; changing countsAsDone also recategorizes its tasks
+ * Body: { name?: string, color?: '#rrggbb', countsAsDone?: boolean,
+ *   allowedNextIds?: string[] (replaces the allowed transitions; empty allows any) }
+ * DELETE /api/statuses/[id]
+ * Delete a workflow status and move its tasks to another one
+ * Query params: moveTo=<status id> (default: the first other status of the same category)
+ * Headers: Authorization: Bearer <token | pat_...>
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import {
+  getWorkflow,
+  hasOpenAndDoneStatus,
+  resolveAllowedNextIds,
+  statusCategory,
+} from '@/lib/workflow';
+import { isValidHexColor, WORKFLOW_STATUS_NAME_MAX_LENGTH } from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface UpdateStatusRequest {
+  name?: string;
+  color?: string;
+  countsAsDone?: boolean;
+  allowedNextIds?: string[];
+}
+
+/**
+ * Update a workflow status
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify the workflow
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if status exists and belongs to user
+    const workflow = await getWorkflow(payload.userId);
+    const status = workflow.find((s) => s.id === id);
+
+    if (!status) {
+      return NextResponse.json(
+        { error: 'Status not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: UpdateStatusRequest = await req.json();
+    const updateData: { name?: string; color?: string; countsAsDone?: boolean } = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > WORKFLOW_STATUS_NAME_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Status names must be 1 to ${WORKFLOW_STATUS_NAME_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+
+      if (workflow.some((s) => s.name === name && s.id !== id)) {
+        return NextResponse.json(
+          { error: 'A status with that name already exists' },
+          { status: 409 }
+        );
+      }
+
+      updateData.name = name;
+    }
+
+    if (body.color !== undefined) {
+      if (!isValidHexColor(body.color)) {
+        return NextResponse.json(
+          { error: 'Color must be a hex value like #3b82f6' },
+          { status: 400 }
+        );
+      }
+      updateData.color = body.color;
+    }
+
+    if (body.countsAsDone !== undefined) {
+      if (typeof body.countsAsDone !== 'boolean') {
+        return NextResponse.json(
+          { error: 'countsAsDone must be true or false' },
+          { status: 400 }
+        );
+      }
+
+      const updated = workflow.map((s) =>
+        s.id === id ? { ...s, countsAsDone: body.countsAsDone! } : s
+      );
+      if (!hasOpenAndDoneStatus(updated)) {
+        return NextResponse.json(
+          { error: 'Your workflow needs at least one open and one done status' },
+          { status: 400 }
+        );
+      }
+      updateData.countsAsDone = body.countsAsDone;
+    }
+
+    let allowedNextIds = status.allowedNextIds;
+    if (body.allowedNextIds !== undefined) {
+      const resolved = resolveAllowedNextIds(workflow, id, body.allowedNextIds);
+      if (!resolved) {
+        return NextResponse.json(
+          { error: 'allowedNextIds must be a list of your other status ids' },
+          { status: 400 }
+        );
+      }
+      allowedNextIds = resolved;
+    }
+
+    if (Object.keys(updateData).length === 0 && body.allowedNextIds === undefined) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const countsAsDone = updateData.countsAsDone ?? status.countsAsDone;
+    const [updatedStatus] = await prisma.$transaction([
+      prisma.workflowStatus.update({
+        where: { id },
+        data: {
+          ...updateData,
+          ...(body.allowedNextIds !== undefined && {
+            transitions: {
+              deleteMany: {},
+              create: allowedNextIds.map((toStatusId) => ({ toStatusId })),
+            },
+          }),
+        },
+      }),
+      // Keep the done category of the status's tasks in step
+      prisma.task.updateMany({
+        where: { statusId: id },
+        data: { status: statusCategory({ countsAsDone }) },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        message: 'Status updated successfully',
+        status: { ...updatedStatus, allowedNextIds },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Update status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a workflow status
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify the workflow
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if status exists and belongs to user
+    const workflow = await getWorkflow(payload.userId);
+    const status = workflow.find((s) => s.id === id);
+
+    if (!status) {
+      return NextResponse.json(
+        { error: 'Status not found' },
+        { status: 404 }
+      );
+    }
+
+    const remaining = workflow.filter((s) => s.id !== id);
+    if (!hasOpenAndDoneStatus(remaining)) {
+      return NextResponse.json(
+        { error: 'Your workflow needs at least one open and one done status' },
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(req.url);
+    const moveToId = url.searchParams.get('moveTo');
+    const moveTo = moveToId
+      ? remaining.find((s) => s.id === moveToId)
+      : remaining.find((s) => s.countsAsDone === status.countsAsDone);
+
+    if (!moveTo) {
+      return NextResponse.json(
+        { error: 'Status to move tasks to not found' },
+        { status: 400 }
+      );
+    }
+
+    // Move the tasks first so the SetNull fallback never applies
+    await prisma.$transaction([
+      prisma.task.updateMany({
+        where: { statusId: id },
+        data: { statusId: moveTo.id, status: statusCategory(moveTo) },
+      }),
+      prisma.workflowStatus.delete({ where: { id } }),
+    ]);
+
+    return NextResponse.json(
+      { message: 'Status deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Delete status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * GET /api/statuses
+ * List the authenticated user's workflow statuses in order, with their task counts
+ * POST /api/statuses
+ * Add a status to the end of the workflow
+ * Body: { name: string, color?: '#rrggbb', countsAsDone?: boolean, allowedNextIds?: string[] }
+ * PUT /api/statuses
+ * Reorder the workflow
+ * Body: { statusIds: string[] } (every status id, in the new order)
+ * Headers: Authorization: Bearer <token | pat_...>
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import { getWorkflow, listWorkflow, reorderWorkflow, resolveAllowedNextIds } from '@/lib/workflow';
+import { isValidHexColor, LABEL_COLORS, WORKFLOW_STATUS_NAME_MAX_LENGTH } from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface CreateStatusRequest {
+  name: string;
+  color?: string;
+  countsAsDone?: boolean;
+  allowedNextIds?: string[];
+}
+
+interface ReorderStatusesRequest {
+  statusIds: string[];
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'read'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    const statuses = await listWorkflow(payload.userId);
+
+    return NextResponse.json({ statuses }, { status: 200 });
+  } catch (error) {
+    console.error('[v0] Get statuses error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch statuses' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify the workflow
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    const body: CreateStatusRequest = await req.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const color = body.color ?? LABEL_COLORS[0];
+    const workflow = await getWorkflow(payload.userId);
+
+    // Validation
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Status name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > WORKFLOW_STATUS_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Status names can be at most ${WORKFLOW_STATUS_NAME_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidHexColor(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #3b82f6' },
+        { status: 400 }
+      );
+    }
+
+    const allowedNextIds =
+      body.allowedNextIds === undefined
+        ? []
+        : resolveAllowedNextIds(workflow, null, body.allowedNextIds);
+    if (!allowedNextIds) {
+      return NextResponse.json(
+        { error: 'allowedNextIds must be a list of your status ids' },
+        { status: 400 }
+      );
+    }
+
+    if (workflow.some((status) => status.name === name)) {
+      return NextResponse.json(
+        { error: 'A status with that name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const status = await prisma.workflowStatus.create({
+      data: {
+        userId: payload.userId,
+        name,
+        color,
+        countsAsDone: body.countsAsDone === true,
+        position: workflow.length === 0 ? 0 : workflow[workflow.length - 1].position + 1,
+        transitions: { create: allowedNextIds.map((toStatusId) => ({ toStatusId })) },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Status created successfully',
+        status: { ...status, allowedNextIds, taskCount: 0 },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[v0] Create status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify the workflow
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    const body: ReorderStatusesRequest = await req.json();
+
+    if (!(await reorderWorkflow(payload.userId, body.statusIds))) {
+      return NextResponse.json(
+        { error: 'statusIds must list every one of your statuses exactly once' },
+        { status: 400 }
+      );
+    }
+
+    const statuses = await listWorkflow(payload.userId);
+
+    return NextResponse.json(
+      { message: 'Statuses reordered', statuses },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Reorder statuses error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reorder statuses' },
+      { status: 500 }
+    );
+  }
+}
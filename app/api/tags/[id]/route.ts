@@ -0,0 +1,212 @@
+/**
+ * PATCH /api/tags/[id]
+ * Rename or recolor a tag
+ * Body: { name?: string, color?: '#rrggbb' }
+ * DELETE /api/tags/[id]
+ * Delete a tag and remove it from every task
+ * Headers: Authorization: Bearer <token | pat_...>
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import { isValidHexColor, TAG_NAME_MAX_LENGTH } from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface UpdateTagRequest {
+  name?: string;
+  color?: string;
+}
+
+/**
+ * Rename or recolor a tag
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tags
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if tag exists and belongs to user
+    const tag = await prisma.tag.findFirst({
+      where: {
+        id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!tag) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: UpdateTagRequest = await req.json();
+    const updateData: { name?: string; color?: string } = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > TAG_NAME_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Tag names must be 1 to ${TAG_NAME_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+
+      const duplicate = await prisma.tag.findFirst({
+        where: { userId: payload.userId, name, NOT: { id } },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'A tag with that name already exists' },
+          { status: 409 }
+        );
+      }
+
+      updateData.name = name;
+    }
+
+    if (body.color !== undefined) {
+      if (!isValidHexColor(body.color)) {
+        return NextResponse.json(
+          { error: 'Color must be a hex value like #3b82f6' },
+          { status: 400 }
+        );
+      }
+      updateData.color = body.color;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const updatedTag = await prisma.tag.update({
+      where: { id },
+      data: updateData,
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Tag updated successfully',
+        tag: updatedTag,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Update tag error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update tag' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a tag
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tags
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Delete tag (must belong to user); task links cascade
+    const result = await prisma.tag.deleteMany({
+      where: {
+        id,
+        userId: payload.userId,
+      },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Tag deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Delete tag error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete tag' },
+      { status: 500 }
+    );
+  }
+}
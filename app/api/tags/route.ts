@@ -0,0 +1,156 @@
+/**
+ * GET /api/tags
+ * List the authenticated user's tags with their task counts
+ * POST /api/tags
+ * Create a tag
+ * Headers: Authorization: Bearer <token | pat_...>
+ * Body: { name: string, color?: '#rrggbb' }
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import { listTags } from '@/lib/tags';
+import { isValidHexColor, LABEL_COLORS, TAG_NAME_MAX_LENGTH } from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface CreateTagRequest {
+  name: string;
+  color?: string;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'read'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    const tags = await listTags(payload.userId);
+
+    return NextResponse.json({ tags }, { status: 200 });
+  } catch (error) {
+    console.error('[v0] Get tags error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tags' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tags
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    const body: CreateTagRequest = await req.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const color = body.color ?? LABEL_COLORS[0];
+
+    // Validation
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Tag name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > TAG_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Tag names can be at most ${TAG_NAME_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidHexColor(color)) {
+      return NextResponse.json(
+        { error: 'Color must be a hex value like #3b82f6' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.tag.findUnique({
+      where: { userId_name: { userId: payload.userId, name } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A tag with that name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        userId: payload.userId,
+        name,
+        color,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Tag created successfully',
+        tag: { ...tag, taskCount: 0 },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[v0] Create tag error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create tag' },
+      { status: 500 }
+    );
+  }
+}
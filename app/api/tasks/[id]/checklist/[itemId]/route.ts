@@ -0,0 +1,203 @@
+/**
+ * PATCH /api/tasks/[id]/checklist/[itemId]
+ * Rename, check or uncheck a checklist item
+ * Body: { title?: string, completed?: boolean }
+ * DELETE /api/tasks/[id]/checklist/[itemId]
+ * Remove a checklist item
+ * Headers: Authorization: Bearer <token | pat_...>
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import { normalizeChecklistTitle } from '@/lib/checklists';
+import { CHECKLIST_ITEM_MAX_LENGTH } from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface UpdateChecklistItemRequest {
+  title?: string;
+  completed?: boolean;
+}
+
+/**
+ * Update a checklist item
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id, itemId } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if item exists and its task belongs to user
+    const item = await prisma.checklistItem.findFirst({
+      where: {
+        id: itemId,
+        task: { id, userId: payload.userId },
+      },
+    });
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Checklist item not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: UpdateChecklistItemRequest = await req.json();
+    const updateData: { title?: string; completed?: boolean } = {};
+
+    if (body.title !== undefined) {
+      const title = normalizeChecklistTitle(body.title);
+      if (!title) {
+        return NextResponse.json(
+          { error: `Checklist items need a title of up to ${CHECKLIST_ITEM_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updateData.title = title;
+    }
+
+    if (body.completed !== undefined) {
+      if (typeof body.completed !== 'boolean') {
+        return NextResponse.json(
+          { error: 'completed must be true or false' },
+          { status: 400 }
+        );
+      }
+      updateData.completed = body.completed;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const updatedItem = await prisma.checklistItem.update({
+      where: { id: itemId },
+      data: updateData,
+      select: { id: true, title: true, completed: true },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Checklist item updated',
+        item: updatedItem,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Update checklist item error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update checklist item' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a checklist item
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id, itemId } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Delete item (its task must belong to user)
+    const result = await prisma.checklistItem.deleteMany({
+      where: {
+        id: itemId,
+        task: { id, userId: payload.userId },
+      },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Checklist item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Checklist item deleted' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Delete checklist item error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete checklist item' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * POST /api/tasks/[id]/checklist
+ * Add an item to the end of a task's checklist
+ * Body: { title: string }
+ * PUT /api/tasks/[id]/checklist
+ * Reorder a task's checklist
+ * Body: { itemIds: string[] } (every item id of the task, in the new order)
+ * Headers: Authorization: Bearer <token | pat_...>
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import {
+  nextChecklistPosition,
+  normalizeChecklistTitle,
+  reorderChecklist,
+} from '@/lib/checklists';
+import { CHECKLIST_ITEM_MAX_LENGTH, CHECKLIST_MAX_ITEMS } from '@/lib/tasks';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface CreateChecklistItemRequest {
+  title: string;
+}
+
+interface ReorderChecklistRequest {
+  itemIds: string[];
+}
+
+/**
+ * Add a checklist item
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if task exists and belongs to user
+    const task = await prisma.task.findFirst({
+      where: {
+        id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: CreateChecklistItemRequest = await req.json();
+
+    // Validation
+    const title = normalizeChecklistTitle(body.title);
+    if (!title) {
+      return NextResponse.json(
+        { error: `Checklist items need a title of up to ${CHECKLIST_ITEM_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const position = await nextChecklistPosition(id);
+    if (position === null) {
+      return NextResponse.json(
+        { error: `A checklist can have at most ${CHECKLIST_MAX_ITEMS} items` },
+        { status: 400 }
+      );
+    }
+
+    const item = await prisma.checklistItem.create({
+      data: { taskId: id, title, position },
+      select: { id: true, title: true, completed: true },
+    });
+
+    return NextResponse.json(
+      { message: 'Checklist item added', item },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[v0] Create checklist item error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add checklist item' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Reorder the checklist
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if task exists and belongs to user
+    const task = await prisma.task.findFirst({
+      where: {
+        id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: ReorderChecklistRequest = await req.json();
+
+    if (!(await reorderChecklist(id, body.itemIds))) {
+      return NextResponse.json(
+        { error: 'itemIds must list every checklist item of the task exactly once' },
+        { status: 400 }
+      );
+    }
+
+    const items = await prisma.checklistItem.findMany({
+      where: { taskId: id },
+      orderBy: { position: 'asc' },
+      select: { id: true, title: true, completed: true },
+    });
+
+    return NextResponse.json(
+      { message: 'Checklist reordered', items },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Reorder checklist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reorder checklist' },
+      { status: 500 }
+    );
+  }
+}
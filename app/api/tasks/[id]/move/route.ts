@@ -0,0 +1,151 @@
+/**
+ * POST /api/tasks/[id]/move
+ * Move a task in the manual order, optionally into another workflow status
+ * Body: { beforeId?: string | null (the task that should come right before it),
+ *   afterId?: string | null (the task that should come right after it),
+ *   statusId?: string (must be an allowed transition) }
+ * With one neighbour the task goes right next to it; with none it keeps its place,
+ * so at least one neighbour or a statusId is required
+ * Headers: Authorization: Bearer <token | pat_...>
+ */
+
+import { prisma } from '@/lib/db';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import { TaskStatus } from '@/lib/tasks';
+import { getWorkflow, resolveStatusChange } from '@/lib/workflow';
+import { rebalanceTaskRanksIfNeeded, resolveTaskRank } from '@/lib/task-order';
+import { taskInclude, serializeTask } from '@/lib/task-records';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface MoveTaskRequest {
+  beforeId?: string | null;
+  afterId?: string | null;
+  statusId?: string;
+}
+
+/**
+ * Move a task
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyApiToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Check if task exists and belongs to user
+    const task = await prisma.task.findFirst({
+      where: {
+        id,
+        userId: payload.userId,
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: MoveTaskRequest = await req.json();
+    const hasNeighbours = body.beforeId != null || body.afterId != null;
+
+    // Validation
+    if (!hasNeighbours && body.statusId === undefined) {
+      return NextResponse.json(
+        { error: 'Send beforeId, afterId or statusId' },
+        { status: 400 }
+      );
+    }
+
+    let statusChange: { statusId?: string; status?: TaskStatus } = {};
+    if (body.statusId !== undefined) {
+      const workflow = await getWorkflow(payload.userId);
+      const change = resolveStatusChange(workflow, task.statusId, { statusId: body.statusId });
+      if ('error' in change) {
+        return NextResponse.json(
+          { error: change.error },
+          { status: 400 }
+        );
+      }
+      statusChange = change;
+    }
+
+    let position = task.position;
+    let rebalanced = false;
+    if (hasNeighbours) {
+      const rank = await resolveTaskRank(payload.userId, id, body);
+      if ('error' in rank) {
+        return NextResponse.json(
+          { error: rank.error },
+          { status: 400 }
+        );
+      }
+      position = rank.position;
+      rebalanced = rank.rebalanced;
+    }
+
+    let movedTask = await prisma.task.update({
+      where: { id },
+      data: { ...statusChange, position },
+      include: taskInclude,
+    });
+
+    // Clients holding other tasks' ranks should refetch after a rebalance
+    if (await rebalanceTaskRanksIfNeeded(payload.userId, position)) {
+      rebalanced = true;
+      movedTask = await prisma.task.findUniqueOrThrow({ where: { id }, include: taskInclude });
+    }
+
+    return NextResponse.json(
+      {
+        message: 'Task moved successfully',
+        task: serializeTask(movedTask),
+        rebalanced,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Move task error:', error);
+    return NextResponse.json(
+      { error: 'Failed to move task' },
+      { status: 500 }
+    );
+  }
+}
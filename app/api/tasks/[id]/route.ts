@@ -1,6 +1,12 @@
 /**
  * PATCH /api/tasks/[id]
  * Update a task
+ * Body: { title?, description?, statusId?: string (must be an allowed transition),
+ *   status?: PENDING|COMPLETED (moves to the first allowed status of that category),
+ *   priority?: NONE|LOW|MEDIUM|HIGH|URGENT,
+ *   dueAt?: ISO date | null, dueHasTime?: boolean, tags?: string[] (replaces the task's tags),
+ *   projectId?: string | null (null moves the task to the Inbox),
+ *   completeChecklist?: boolean (when the task becomes done, also checks off every checklist item) }
  * PUT /api/tasks/[id]
  * Update a task (alias)
  * DELETE /api/tasks/[id]
@@ -8,13 +14,27 @@
  */
 
 import { prisma } from '@/lib/db';
-import { verifyToken, extractToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import { isTaskPriority, isTaskStatus, isValidDueAt, TaskPriority, TaskStatus } from '@/lib/tasks';
+import { resolveTagIds } from '@/lib/tags';
+import { isUserProject } from '@/lib/projects';
+import { getWorkflow, resolveStatusChange } from '@/lib/workflow';
+import { taskInclude, serializeTask } from '@/lib/task-records';
 import { NextRequest, NextResponse } from 'next/server';
 
 interface UpdateTaskRequest {
   title?: string;
   description?: string;
-  status?: 'PENDING' | 'COMPLETED';
+  status?: TaskStatus;
+  statusId?: string;
+  priority?: TaskPriority;
+  dueAt?: string | null;
+  dueHasTime?: boolean;
+  tags?: string[];
+  projectId?: string | null;
+  completeChecklist?: boolean;
 }
 
 /**
@@ -28,7 +48,7 @@ export async function PATCH(
     const { id } = await params;
 
     // Extract and verify token
-    const token = extractToken(req.headers.get('authorization') || '');
+    const token = getRequestToken(req);
     if (!token) {
       return NextResponse.json(
         { error: 'Missing or invalid authorization header' },
@@ -36,7 +56,7 @@ export async function PATCH(
       );
     }
 
-    const payload = verifyToken(token);
+    const payload = await verifyApiToken(token);
     if (!payload) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -44,6 +64,22 @@ export async function PATCH(
       );
     }
 
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
     // Check if task exists and belongs to user
     const task = await prisma.task.findFirst({
       where: {
@@ -70,8 +106,79 @@ export async function PATCH(
       updateData.description = body.description || null;
     }
 
-    if (body.status !== undefined) {
-      updateData.status = body.status;
+    if (body.status !== undefined || body.statusId !== undefined) {
+      if (body.status !== undefined && !isTaskStatus(body.status)) {
+        return NextResponse.json(
+          { error: 'Invalid status' },
+          { status: 400 }
+        );
+      }
+
+      const change = resolveStatusChange(await getWorkflow(payload.userId), task.statusId, {
+        statusId: body.statusId,
+        status: body.status,
+      });
+      if ('error' in change) {
+        return NextResponse.json(
+          { error: change.error },
+          { status: 400 }
+        );
+      }
+
+      updateData.statusId = change.statusId;
+      updateData.status = change.status;
+      if (change.status === 'COMPLETED' && body.completeChecklist) {
+        updateData.checklistItems = {
+          updateMany: { where: { completed: false }, data: { completed: true } },
+        };
+      }
+    }
+
+    if (body.priority !== undefined) {
+      if (!isTaskPriority(body.priority)) {
+        return NextResponse.json(
+          { error: 'Invalid priority' },
+          { status: 400 }
+        );
+      }
+      updateData.priority = body.priority;
+    }
+
+    if (body.dueAt !== undefined) {
+      if (!isValidDueAt(body.dueAt)) {
+        return NextResponse.json(
+          { error: 'Invalid due date' },
+          { status: 400 }
+        );
+      }
+      updateData.dueAt = body.dueAt ? new Date(body.dueAt) : null;
+      updateData.dueHasTime = !!body.dueAt && !!body.dueHasTime;
+    } else if (body.dueHasTime !== undefined) {
+      updateData.dueHasTime = !!task.dueAt && body.dueHasTime;
+    }
+
+    if (body.tags !== undefined) {
+      const tagIds = await resolveTagIds(payload.userId, body.tags);
+      if (!tagIds) {
+        return NextResponse.json(
+          { error: 'Tags must be an array of your tag ids' },
+          { status: 400 }
+        );
+      }
+      updateData.tags = {
+        deleteMany: {},
+        create: tagIds.map((tagId) => ({ tagId })),
+      };
+    }
+
+    if (body.projectId !== undefined) {
+      if (body.projectId && !(await isUserProject(payload.userId, body.projectId))) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 400 }
+        );
+      }
+      updateData.projectId = body.projectId || null;
     }
 
     if (Object.keys(updateData).length === 0) {
@@ -84,12 +191,13 @@ export async function PATCH(
     const updatedTask = await prisma.task.update({
       where: { id },
       data: updateData,
+      include: taskInclude,
     });
 
     return NextResponse.json(
       {
         message: 'Task updated successfully',
-        task: updatedTask,
+        task: serializeTask(updatedTask),
       },
       { status: 200 }
     );
@@ -123,7 +231,7 @@ export async function DELETE(
     const { id } = await params;
 
     // Extract and verify token
-    const token = extractToken(req.headers.get('authorization') || '');
+    const token = getRequestToken(req);
     if (!token) {
       return NextResponse.json(
         { error: 'Missing or invalid authorization header' },
@@ -131,7 +239,7 @@ export async function DELETE(
       );
     }
 
-    const payload = verifyToken(token);
+    const payload = await verifyApiToken(token);
     if (!payload) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -139,6 +247,22 @@ export async function DELETE(
       );
     }
 
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
     // Delete task (must belong to user)
     const result = await prisma.task.deleteMany({
       where: {
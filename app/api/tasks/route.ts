@@ -1,23 +1,58 @@
 /**
  * POST /api/tasks
  * Create a new task
- * Headers: Authorization: Bearer <token>
- * Body: { title: string, description?: string }
+ * Headers: Authorization: Bearer <token | pat_...>
+ * Body: { title: string, description?: string, priority?: NONE|LOW|MEDIUM|HIGH|URGENT,
+ *   dueAt?: ISO date | null, dueHasTime?: boolean, tags?: string[] (tag ids),
+ *   projectId?: string | null (null or omitted: the Inbox), checklist?: string[] (item titles),
+ *   statusId?: string (workflow status; default: the first open one) }
  */
 
 import { prisma } from '@/lib/db';
-import { verifyToken, extractToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { verifyApiToken, hasTokenScope } from '@/lib/personal-access-tokens';
+import { canAccessTasks } from '@/lib/email-verification';
+import {
+  CHECKLIST_MAX_ITEMS,
+  isTaskPriority,
+  isTaskStatus,
+  isTaskSortField,
+  isValidDueAt,
+  parseTaskSort,
+  TASK_SORT_FIELDS,
+  TaskPriority,
+} from '@/lib/tasks';
+import { resolveTagIds } from '@/lib/tags';
+import { isUserProject } from '@/lib/projects';
+import { resolveChecklistTitles } from '@/lib/checklists';
+import { getWorkflow, resolveStatusChange } from '@/lib/workflow';
+import { taskInclude, serializeTask } from '@/lib/task-records';
+import {
+  decodeTaskCursor,
+  encodeTaskCursor,
+  firstTaskRank,
+  rebalanceTaskRanksIfNeeded,
+  taskCursorWhere,
+  taskSortOrderBy,
+} from '@/lib/task-order';
 import { NextRequest, NextResponse } from 'next/server';
 
 interface CreateTaskRequest {
   title: string;
   description?: string;
+  priority?: TaskPriority;
+  dueAt?: string | null;
+  dueHasTime?: boolean;
+  tags?: string[];
+  projectId?: string | null;
+  checklist?: string[];
+  statusId?: string;
 }
 
 export async function POST(req: NextRequest) {
   try {
     // Extract and verify token
-    const token = extractToken(req.headers.get('authorization') || '');
+    const token = getRequestToken(req);
     if (!token) {
       return NextResponse.json(
         { error: 'Missing or invalid authorization header' },
@@ -25,7 +60,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const payload = verifyToken(token);
+    const payload = await verifyApiToken(token);
     if (!payload) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -33,8 +68,25 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Read-only personal access tokens cannot modify tasks
+    if (!hasTokenScope(payload, 'write')) {
+      return NextResponse.json(
+        { error: 'Token does not have write access' },
+        { status: 403 }
+      );
+    }
+
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'write'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
     const body: CreateTaskRequest = await req.json();
-    const { title, description } = body;
+    const { title, description, priority, dueAt, dueHasTime, tags, projectId, checklist, statusId } =
+      body;
 
     // Validation
     if (!title || title.trim().length === 0) {
@@ -44,20 +96,82 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Create task
-    const task = await prisma.task.create({
+    if (priority !== undefined && !isTaskPriority(priority)) {
+      return NextResponse.json(
+        { error: 'Invalid priority' },
+        { status: 400 }
+      );
+    }
+
+    if (dueAt !== undefined && !isValidDueAt(dueAt)) {
+      return NextResponse.json(
+        { error: 'Invalid due date' },
+        { status: 400 }
+      );
+    }
+
+    const tagIds = tags === undefined ? [] : await resolveTagIds(payload.userId, tags);
+    if (!tagIds) {
+      return NextResponse.json(
+        { error: 'Tags must be an array of your tag ids' },
+        { status: 400 }
+      );
+    }
+
+    if (projectId && !(await isUserProject(payload.userId, projectId))) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 400 }
+      );
+    }
+
+    const checklistTitles = checklist === undefined ? [] : resolveChecklistTitles(checklist);
+    if (!checklistTitles) {
+      return NextResponse.json(
+        { error: `Checklist must be a list of up to ${CHECKLIST_MAX_ITEMS} item titles` },
+        { status: 400 }
+      );
+    }
+
+    const workflowStatus = resolveStatusChange(await getWorkflow(payload.userId), null, { statusId });
+    if ('error' in workflowStatus) {
+      return NextResponse.json(
+        { error: workflowStatus.error },
+        { status: 400 }
+      );
+    }
+
+    // Create task at the top of the manual order
+    const rank = await firstTaskRank(payload.userId);
+    let task = await prisma.task.create({
       data: {
         title,
         description: description || null,
         userId: payload.userId,
-        status: 'PENDING',
+        status: workflowStatus.status,
+        statusId: workflowStatus.statusId,
+        priority: priority ?? 'NONE',
+        dueAt: dueAt ? new Date(dueAt) : null,
+        dueHasTime: !!dueAt && !!dueHasTime,
+        projectId: projectId || null,
+        position: rank,
+        tags: { create: tagIds.map((tagId) => ({ tagId })) },
+        checklistItems: {
+          create: checklistTitles.map((itemTitle, position) => ({ title: itemTitle, position })),
+        },
       },
+      include: taskInclude,
     });
 
+    // Each new task takes a rank in front of the last one, so these grow until respaced
+    if (await rebalanceTaskRanksIfNeeded(payload.userId, rank)) {
+      task = await prisma.task.findUniqueOrThrow({ where: { id: task.id }, include: taskInclude });
+    }
+
     return NextResponse.json(
       {
         message: 'Task created successfully',
-        task,
+        task: serializeTask(task),
       },
       { status: 201 }
     );
@@ -73,12 +187,22 @@ export async function POST(req: NextRequest) {
 /**
  * GET /api/tasks
  * Get all tasks for authenticated user with pagination and filtering
- * Query params: page=1, limit=10, status=PENDING|COMPLETED
+ * Query params: page=1, limit=10 (max 100), cursor=<nextCursor from the previous
+ *   response; empty for the first page> (switches to cursor paging, which skips the
+ *   total count and is stable while tasks change), status=PENDING|COMPLETED (done category),
+ *   statusId=<id> (workflow status, repeatable or comma-separated), search,
+ *   priority=HIGH,URGENT (one or more),
+ *   sort=-priority,dueAt,title (fields from createdAt|updatedAt|title|priority|dueAt|position,
+ *   "-" for descending; default -createdAt), sortBy=<field> and sortOrder=asc|desc (default desc)
+ *   (a single sort key, used when sort is absent), dueAfter=<ISO date> (inclusive),
+ *   dueBefore=<ISO date> (exclusive), overdue=true (past due and not completed),
+ *   tag=<id or name> (repeatable or comma-separated), tagMode=any|all (default any),
+ *   projectId=<id>|inbox (tasks of one project, or tasks without a project)
  */
 export async function GET(req: NextRequest) {
   try {
     // Extract and verify token
-    const token = extractToken(req.headers.get('authorization') || '');
+    const token = getRequestToken(req);
     if (!token) {
       return NextResponse.json(
         { error: 'Missing or invalid authorization header' },
@@ -86,7 +210,7 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const payload = verifyToken(token);
+    const payload = await verifyApiToken(token);
     if (!payload) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -94,22 +218,129 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    // Unverified accounts are limited by UNVERIFIED_USER_POLICY
+    if (!(await canAccessTasks(payload.userId, 'read'))) {
+      return NextResponse.json(
+        { error: 'Please verify your email address to continue' },
+        { status: 403 }
+      );
+    }
+
+    // Assigns workflow statuses to tasks from before the user had a workflow
+    await getWorkflow(payload.userId);
+
     // Get query parameters
     const url = new URL(req.url);
     const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
-    const limit = Math.min(100, parseInt(url.searchParams.get('limit') || '10'));
+    const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get('limit') || '10') || 10));
     const status = url.searchParams.get('status');
+    const statusIds = url.searchParams
+      .getAll('statusId')
+      .flatMap((value) => value.split(','))
+      .filter(Boolean);
     const search = url.searchParams.get('search');
+    const priorities = (url.searchParams.get('priority') || '')
+      .split(',')
+      .filter(isTaskPriority);
+    const sortParam = url.searchParams.get('sort');
+    const sortByParam = url.searchParams.get('sortBy');
+    const dueAfter = url.searchParams.get('dueAfter');
+    const dueBefore = url.searchParams.get('dueBefore');
+    const overdue = url.searchParams.get('overdue') === 'true';
+    const tagFilters = url.searchParams
+      .getAll('tag')
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const tagMode = url.searchParams.get('tagMode') === 'all' ? 'all' : 'any';
+    const projectId = url.searchParams.get('projectId');
+    const cursor = url.searchParams.get('cursor');
+
+    if ((dueAfter && !isValidDueAt(dueAfter)) || (dueBefore && !isValidDueAt(dueBefore))) {
+      return NextResponse.json(
+        { error: 'dueAfter and dueBefore must be ISO dates' },
+        { status: 400 }
+      );
+    }
+
+    const sortKeys = sortParam
+      ? parseTaskSort(sortParam)
+      : [
+          {
+            field: isTaskSortField(sortByParam) ? sortByParam : 'createdAt',
+            order: url.searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc',
+          } as const,
+        ];
+    if (!sortKeys) {
+      return NextResponse.json(
+        { error: `sort must list distinct fields from ${TASK_SORT_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Cursors record the sort they were made for
+    const cursorValues = cursor ? decodeTaskCursor(sortKeys, cursor) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json(
+        { error: 'Invalid cursor for this sort' },
+        { status: 400 }
+      );
+    }
 
     const offset = (page - 1) * limit;
 
     // Build filter
     const where: any = { userId: payload.userId };
     
-    if (status && ['PENDING', 'COMPLETED'].includes(status)) {
+    if (isTaskStatus(status)) {
       where.status = status;
     }
 
+    if (statusIds.length > 0) {
+      where.statusId = { in: statusIds };
+    }
+
+    if (priorities.length > 0) {
+      where.priority = { in: priorities };
+    }
+
+    if (projectId) {
+      where.projectId = projectId === 'inbox' ? null : projectId;
+    }
+
+    // Filters that combine several conditions
+    const conditions: any[] = [];
+
+    // Due date range, combined with the overdue filter
+    if (dueAfter) {
+      conditions.push({ dueAt: { gte: new Date(dueAfter) } });
+    }
+    if (dueBefore) {
+      conditions.push({ dueAt: { lt: new Date(dueBefore) } });
+    }
+    if (overdue) {
+      conditions.push({ dueAt: { lt: new Date() } }, { NOT: { status: 'COMPLETED' } });
+    }
+
+    // Tags, by id or name: any matches one of them, all requires every one
+    const tagMatch = (value: string) => ({
+      tags: { some: { tag: { OR: [{ id: value }, { name: value }] } } },
+    });
+    if (tagFilters.length > 0 && tagMode === 'all') {
+      conditions.push(...tagFilters.map(tagMatch));
+    } else if (tagFilters.length > 0) {
+      conditions.push({ OR: tagFilters.map(tagMatch) });
+    }
+
+    // Tasks after the previous page in cursor mode
+    if (cursorValues) {
+      conditions.push(taskCursorWhere(sortKeys, cursorValues));
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
     if (search && search.trim().length > 0) {
       where.title = {
         contains: search,
@@ -117,20 +348,45 @@ export async function GET(req: NextRequest) {
       };
     }
 
+    if (cursor !== null) {
+      // One extra task shows whether there is another page
+      const tasks = await prisma.task.findMany({
+        where,
+        orderBy: taskSortOrderBy(sortKeys),
+        take: limit + 1,
+        include: taskInclude,
+      });
+      const hasMore = tasks.length > limit;
+      const pageTasks = tasks.slice(0, limit);
+
+      return NextResponse.json(
+        {
+          tasks: pageTasks.map(serializeTask),
+          pagination: {
+            limit,
+            nextCursor: hasMore ? encodeTaskCursor(sortKeys, pageTasks[pageTasks.length - 1]) : null,
+            hasMore,
+          },
+        },
+        { status: 200 }
+      );
+    }
+
     // Get total count
     const total = await prisma.task.count({ where });
 
     // Get tasks
     const tasks = await prisma.task.findMany({
       where,
-      orderBy: { createdAt: 'desc' },
+      orderBy: taskSortOrderBy(sortKeys),
       skip: offset,
       take: limit,
+      include: taskInclude,
     });
 
     return NextResponse.json(
       {
-        tasks,
+        tasks: tasks.map(serializeTask),
         pagination: {
           page,
           limit,
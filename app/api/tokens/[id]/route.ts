@@ -0,0 +1,68 @@
+/**
+ * DELETE /api/tokens/[id]
+ * Revoke a personal access token
+ * Headers: Authorization: Bearer <token>
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot revoke the user's tokens
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    // Revoke token (must belong to user)
+    const result = await prisma.personalAccessToken.updateMany({
+      where: { id, userId: payload.userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Token revoked successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[v0] Revoke token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * POST /api/tokens
+ * Create a personal access token
+ * Headers: Authorization: Bearer <token>
+ * Body: { name: string, scope?: 'READ' | 'WRITE', expiresInDays?: number }
+ * The raw token is returned only in this response
+ */
+
+import { prisma } from '@/lib/db';
+import { verifyToken } from '@/lib/auth';
+import { getRequestToken } from '@/lib/auth-cookies';
+import { createPersonalAccessToken } from '@/lib/personal-access-tokens';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface CreateTokenRequest {
+  name: string;
+  scope?: 'READ' | 'WRITE';
+  expiresInDays?: number;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Extract and verify token
+    // Personal access tokens cannot be used here, so a leaked one cannot mint more
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Admins signed in as this user cannot mint tokens that outlive the impersonation
+    if (payload.impersonatorId) {
+      return NextResponse.json(
+        { error: 'Not available while signed in as another user' },
+        { status: 403 }
+      );
+    }
+
+    const body: CreateTokenRequest = await req.json();
+    const { name, scope = 'READ', expiresInDays } = body;
+
+    // Validation
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Token name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!['READ', 'WRITE'].includes(scope)) {
+      return NextResponse.json(
+        { error: 'Scope must be READ or WRITE' },
+        { status: 400 }
+      );
+    }
+
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1)) {
+      return NextResponse.json(
+        { error: 'expiresInDays must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 86400 * 1000)
+      : null;
+
+    const created = await createPersonalAccessToken(
+      payload.userId,
+      name.trim(),
+      scope,
+      expiresAt
+    );
+
+    return NextResponse.json(
+      {
+        message: 'Token created successfully',
+        token: created.token,
+        personalAccessToken: created.record,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[v0] Create token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create token' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/tokens
+ * List the authenticated user's active personal access tokens
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const tokens = await prisma.personalAccessToken.findMany({
+      where: { userId: payload.userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        name: true,
+        prefix: true,
+        scope: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json({ tokens }, { status: 200 });
+  } catch (error) {
+    console.error('[v0] List tokens error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tokens' },
+      { status: 500 }
+    );
+  }
+}
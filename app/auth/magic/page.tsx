@@ -0,0 +1,96 @@
+/**
+ * Magic Link Page Component
+ * Target of emailed sign-in links: exchanges the link's token for a session,
+ * asks for the second factor when needed, or shows why the link failed
+ */
+
+'use client';
+
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { MfaChallenge } from '@/components/MfaChallenge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, XCircle } from 'lucide-react';
+
+function MagicLinkResult() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { completeMagicLinkLogin } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    // The link is single-use, so exchange it only once, even in Strict Mode
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+
+    const token = searchParams.get('token');
+    if (!token) {
+      setError('This sign-in link is incomplete. Please request a new one.');
+      return;
+    }
+
+    completeMagicLinkLogin(token)
+      .then((result) => {
+        if (result.mfaRequired) {
+          setMfaToken(result.mfaToken);
+          return;
+        }
+        toast.success('Logged in successfully');
+        router.replace('/dashboard');
+      })
+      .catch((err: Error) => setError(err.message || 'Sign-in link failed'));
+  }, [searchParams, completeMagicLinkLogin, router]);
+
+  if (mfaToken) {
+    return (
+      <MfaChallenge
+        mfaToken={mfaToken}
+        onSuccess={() => router.replace('/dashboard')}
+        onCancel={() => router.replace('/login')}
+      />
+    );
+  }
+
+  if (!error) {
+    return (
+      <Card className="w-full max-w-md border border-border">
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md border border-border">
+      <CardHeader className="space-y-2">
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <XCircle className="h-6 w-6 text-destructive" />
+          Sign-in Failed
+        </CardTitle>
+        <CardDescription>{error}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button asChild className="w-full bg-primary hover:bg-primary/90">
+          <Link href="/login">Back to sign in</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MagicLinkPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-background dark:from-background dark:via-background dark:to-background flex items-center justify-center p-4">
+      <Suspense fallback={null}>
+        <MagicLinkResult />
+      </Suspense>
+    </div>
+  );
+}
@@ -4,35 +4,114 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { apiClient } from '@/lib/api-client';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
-import { TaskCard } from '@/components/TaskCard';
-import { TaskDialog } from '@/components/TaskDialog';
+import { GridMove, TaskGrid } from '@/components/TaskGrid';
+import { BoardMove, TaskBoard } from '@/components/TaskBoard';
+import { TaskDialog, TaskFormData } from '@/components/TaskDialog';
+import { VerifyEmailBanner } from '@/components/VerifyEmailBanner';
+import { ImpersonationBanner } from '@/components/ImpersonationBanner';
+import { ProjectSidebar, ProjectView, SidebarProject } from '@/components/ProjectSidebar';
+import { ProjectDialog, ProjectFormData } from '@/components/ProjectDialog';
+import {
+  ChecklistItemSummary,
+  ChecklistProgress,
+  ProjectSummary,
+  TASK_PRIORITIES,
+  TASK_PRIORITY_LABELS,
+  TagSummary,
+  TaskPriority,
+  TaskStatus,
+  WorkflowStatusDefinition,
+  WorkflowStatusSummary,
+  isTaskStatus,
+} from '@/lib/tasks';
+import { addDays, endOfDay, startOfDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
   SelectItem,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { toast } from 'sonner';
-import { LogOut, Plus, CheckCircle2, Circle, Loader2 } from 'lucide-react';
+import {
+  LogOut,
+  Plus,
+  CheckCircle2,
+  Circle,
+  Columns3,
+  LayoutGrid,
+  Loader2,
+  Settings,
+  Shield,
+} from 'lucide-react';
 
 interface Task {
   id: string;
   title: string;
   description?: string;
-  status: 'PENDING' | 'COMPLETED';
+  status: TaskStatus;
+  statusId: string | null;
+  workflowStatus: WorkflowStatusSummary | null;
+  priority: TaskPriority;
+  dueAt: string | null;
+  dueHasTime: boolean;
+  tags: TagSummary[];
+  projectId: string | null;
+  project: ProjectSummary | null;
+  checklist: ChecklistItemSummary[];
+  progress: ChecklistProgress;
+  position: string;
   createdAt: string;
   updatedAt: string;
 }
 
+interface TaskFilters {
+  project: ProjectView;
+  search: string;
+  status: string; // 'ALL', a done category or a workflow status id
+  priority: 'ALL' | TaskPriority;
+  due: 'ALL' | 'OVERDUE' | 'TODAY' | 'WEEK';
+  tag: string; // tag id or 'ALL'
+  sort: string; // GET /api/tasks sort parameter
+}
+
+const DEFAULT_SORT = '-createdAt';
+
+// Sort choices offered in the toolbar, as GET /api/tasks sort parameters
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: '-createdAt', label: 'Newest first' },
+  { value: 'createdAt', label: 'Oldest first' },
+  { value: '-priority,dueAt', label: 'Highest priority' },
+  { value: 'priority,dueAt', label: 'Lowest priority' },
+  { value: 'dueAt,-priority', label: 'Due soonest' },
+  { value: '-updatedAt', label: 'Recently updated' },
+  { value: 'title', label: 'Title A-Z' },
+  { value: '-title', label: 'Title Z-A' },
+  { value: 'position', label: 'Manual order' },
+];
+
+type TaskView = 'list' | 'board';
+
+// The board shows every task at once, up to the API's page size limit
+const BOARD_TASK_LIMIT = 100;
+
+// The list pages with Previous/Next buttons or loads more as you scroll
+type Paging = 'pages' | 'infinite';
+
 interface PaginationData {
   page: number;
   limit: number;
@@ -40,9 +119,45 @@ interface PaginationData {
   totalPages: number;
 }
 
+// Cursor paging used by infinite scroll
+interface CursorPaginationData {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Filter and sort query parameters for GET /api/tasks
+function buildTaskQuery(filters: TaskFilters, isBoard: boolean): URLSearchParams {
+  // The board has a column per status, so it ignores the status filter
+  const params = new URLSearchParams({ sort: isBoard ? 'position' : filters.sort });
+
+  if (filters.project !== 'ALL') params.append('projectId', filters.project);
+  if (filters.search) params.append('search', filters.search);
+  if (!isBoard && isTaskStatus(filters.status)) {
+    params.append('status', filters.status);
+  } else if (!isBoard && filters.status !== 'ALL') {
+    params.append('statusId', filters.status);
+  }
+  if (filters.priority !== 'ALL') params.append('priority', filters.priority);
+  if (filters.tag !== 'ALL') params.append('tag', filters.tag);
+
+  // Due ranges are computed in the browser so "today" follows the user's timezone
+  if (filters.due === 'OVERDUE') {
+    params.append('overdue', 'true');
+  } else if (filters.due === 'TODAY') {
+    params.append('dueAfter', startOfDay(new Date()).toISOString());
+    params.append('dueBefore', addDays(startOfDay(new Date()), 1).toISOString());
+  } else if (filters.due === 'WEEK') {
+    params.append('dueAfter', startOfDay(new Date()).toISOString());
+    params.append('dueBefore', endOfDay(addDays(new Date(), 6)).toISOString());
+  }
+
+  return params;
+}
+
 export default function DashboardPage() {
   const router = useRouter();
-  const { user, logout, accessToken } = useAuth();
+  const { user, logout, isAuthenticated } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [pagination, setPagination] = useState<PaginationData>({
@@ -52,68 +167,306 @@ export default function DashboardPage() {
     totalPages: 0,
   });
 
-  // Filter and search state
-  const [status, setStatus] = useState<'ALL' | 'PENDING' | 'COMPLETED'>('ALL');
-  const [search, setSearch] = useState('');
+  // Infinite scroll state; null while the list is paged by number
+  const [paging, setPaging] = useState<Paging>('pages');
+  const [cursorPagination, setCursorPagination] = useState<CursorPaginationData | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadingMore = useRef(false);
+  const loadMoreSentinel = useRef<HTMLDivElement>(null);
+  // Bumped on every fresh fetch, so responses for an older query are dropped
+  const taskQuery = useRef(0);
+
+  // List or board layout
+  const [view, setView] = useState<TaskView>('list');
+
+  // Filter, search and sort state
+  const [filters, setFilters] = useState<TaskFilters>({
+    project: 'ALL',
+    search: '',
+    status: 'ALL',
+    priority: 'ALL',
+    due: 'ALL',
+    tag: 'ALL',
+    sort: DEFAULT_SORT,
+  });
+
+  // Tags for the filter menu
+  const [tags, setTags] = useState<TagSummary[]>([]);
+
+  // Workflow statuses for the status filter and task dialog
+  const [statuses, setStatuses] = useState<WorkflowStatusDefinition[]>([]);
+
+  // Projects for the sidebar
+  const [projects, setProjects] = useState<SidebarProject[]>([]);
+  const [inboxPendingCount, setInboxPendingCount] = useState(0);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Project dialog state
+  const [projectDialogOpen, setProjectDialogOpen] = useState(false);
+  const [selectedProject, setSelectedProject] = useState<SidebarProject | undefined>();
+  const [isSavingProject, setIsSavingProject] = useState(false);
 
   // Task dialog state
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | undefined>();
+  // Checklist edits are saved as they happen; the list is refreshed once the dialog closes
+  const checklistChanged = useRef(false);
 
   // Fetch tasks
-  const fetchTasks = async (page: number = 1, searchTerm: string = '', filterStatus: string = '') => {
-    if (!accessToken) return;
+  const fetchTasks = async (
+    page: number = 1,
+    currentFilters: TaskFilters = filters,
+    currentView: TaskView = view,
+    currentPaging: Paging = paging
+  ) => {
+    if (!isAuthenticated) return;
+
+    // No more pages until the new list arrives; the current cursor belongs to the old one
+    const query = ++taskQuery.current;
+    loadingMore.current = true;
+    setIsLoadingMore(false);
 
     try {
       setIsLoading(true);
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: '10',
-      });
-
-      if (searchTerm) params.append('search', searchTerm);
-      if (filterStatus && filterStatus !== 'ALL') params.append('status', filterStatus);
+      const isBoard = currentView === 'board';
+      const isInfinite = !isBoard && currentPaging === 'infinite';
+      const params = buildTaskQuery(currentFilters, isBoard);
+      params.append('limit', isBoard ? BOARD_TASK_LIMIT.toString() : '10');
+
+      // Infinite scroll starts over from the top; the board shows a single page
+      if (isInfinite) {
+        params.append('cursor', '');
+      } else {
+        params.append('page', isBoard ? '1' : page.toString());
+      }
 
       const response = await apiClient.get(`/api/tasks?${params}`);
+      if (query !== taskQuery.current) return;
       setTasks(response.data.tasks);
-      setPagination(response.data.pagination);
+      if (isInfinite) {
+        setCursorPagination(response.data.pagination);
+      } else {
+        setPagination(response.data.pagination);
+        setCursorPagination(null);
+      }
     } catch (error: any) {
+      if (query !== taskQuery.current) return;
       toast.error('Failed to load tasks');
       console.error('[v0] Fetch tasks error:', error);
     } finally {
-      setIsLoading(false);
+      if (query === taskQuery.current) {
+        loadingMore.current = false;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Append the next page in infinite scroll mode
+  const loadMoreTasks = async () => {
+    if (!cursorPagination?.nextCursor || loadingMore.current) return;
+
+    const query = taskQuery.current;
+    try {
+      loadingMore.current = true;
+      setIsLoadingMore(true);
+      const params = buildTaskQuery(filters, false);
+      params.append('limit', cursorPagination.limit.toString());
+      params.append('cursor', cursorPagination.nextCursor);
+
+      const response = await apiClient.get(`/api/tasks?${params}`);
+      // Filters, sort or view changed while loading; this page belongs to the old list
+      if (query !== taskQuery.current) return;
+      setTasks((prev) => [
+        ...prev,
+        ...response.data.tasks.filter((task: Task) => !prev.some((t) => t.id === task.id)),
+      ]);
+      setCursorPagination(response.data.pagination);
+    } catch (error: any) {
+      if (query !== taskQuery.current) return;
+      toast.error('Failed to load more tasks');
+      console.error('[v0] Load more tasks error:', error);
+    } finally {
+      if (query === taskQuery.current) {
+        loadingMore.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  };
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreSentinel.current;
+    if (!sentinel || !cursorPagination?.hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMoreTasks();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [cursorPagination, filters]);
+
+  // Fetch tags
+  const fetchTags = async () => {
+    try {
+      const response = await apiClient.get('/api/tags');
+      setTags(response.data.tags);
+    } catch (error: any) {
+      console.error('[v0] Fetch tags error:', error);
+    }
+  };
+
+  // Fetch workflow statuses
+  const fetchStatuses = async () => {
+    try {
+      const response = await apiClient.get('/api/statuses');
+      setStatuses(response.data.statuses);
+    } catch (error: any) {
+      console.error('[v0] Fetch statuses error:', error);
+    }
+  };
+
+  // Fetch projects and pending counts
+  const fetchProjects = async (includeArchived: boolean = showArchived) => {
+    try {
+      const response = await apiClient.get(
+        `/api/projects${includeArchived ? '?archived=true' : ''}`
+      );
+      setProjects(response.data.projects);
+      setInboxPendingCount(response.data.inbox.pendingCount);
+    } catch (error: any) {
+      console.error('[v0] Fetch projects error:', error);
+    }
+  };
+
+  // Fetch the sort the user last picked
+  const fetchSavedSort = async (): Promise<string | null> => {
+    try {
+      const response = await apiClient.get('/api/me');
+      return response.data.user.taskSort;
+    } catch (error: any) {
+      console.error('[v0] Fetch saved sort error:', error);
+      return null;
     }
   };
 
   // Initial load
   useEffect(() => {
-    if (accessToken) {
-      fetchTasks(1, search, status);
+    if (isAuthenticated) {
+      fetchSavedSort().then((sort) => handleFiltersChange({ sort: sort || DEFAULT_SORT }));
+      fetchTags();
+      fetchProjects();
+      fetchStatuses();
     }
-  }, [accessToken]);
+  }, [isAuthenticated]);
 
-  // Handle search and filter changes
-  const handleSearch = async (term: string) => {
-    setSearch(term);
-    await fetchTasks(1, term, status);
+  // Handle search, filter and sort changes
+  const handleFiltersChange = async (changes: Partial<TaskFilters>) => {
+    const newFilters = { ...filters, ...changes };
+    setFilters(newFilters);
+    await fetchTasks(1, newFilters);
   };
 
-  const handleFilterChange = async (newStatus: 'ALL' | 'PENDING' | 'COMPLETED') => {
-    setStatus(newStatus);
-    await fetchTasks(1, search, newStatus);
+  // Sorting is remembered for the user across devices
+  const handleSortChange = async (sort: string) => {
+    apiClient
+      .patch('/api/me', { taskSort: sort === DEFAULT_SORT ? null : sort })
+      .catch((error) => console.error('[v0] Save sort error:', error));
+    await handleFiltersChange({ sort });
+  };
+
+  const handlePagingChange = async (infinite: boolean) => {
+    const value = infinite ? 'infinite' : 'pages';
+    setPaging(value);
+    await fetchTasks(1, filters, view, value);
+  };
+
+  const handleViewChange = async (value: string) => {
+    if (value !== 'list' && value !== 'board') return;
+    setView(value);
+    await fetchTasks(1, filters, value);
+  };
+
+  // Move a task between neighbours in the manual order, and optionally to another
+  // status, updating it in place and rolling back if the move fails
+  const moveTask = async (
+    taskId: string,
+    neighbours: Task[],
+    index: number,
+    status?: WorkflowStatusDefinition
+  ) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) return;
+
+    const before = neighbours[index - 1];
+    const after = neighbours[index];
+    const statusChanged = !!status && status.id !== task.statusId;
+    if (!before && !after && !statusChanged) return;
+
+    const moved: Task =
+      status && statusChanged
+        ? {
+            ...task,
+            statusId: status.id,
+            workflowStatus: {
+              id: status.id,
+              name: status.name,
+              color: status.color,
+              countsAsDone: status.countsAsDone,
+            },
+            status: status.countsAsDone ? 'COMPLETED' : 'PENDING',
+          }
+        : task;
+    const rest = tasks.filter((t) => t.id !== taskId);
+    const at = before ? rest.indexOf(before) + 1 : after ? rest.indexOf(after) : rest.length;
+    rest.splice(at, 0, moved);
+
+    const previousTasks = tasks;
+    setTasks(rest);
+
+    try {
+      const response = await apiClient.post(`/api/tasks/${taskId}/move`, {
+        beforeId: before?.id ?? null,
+        afterId: after?.id ?? null,
+        ...(statusChanged && { statusId: status.id }),
+      });
+      if (response.data.rebalanced) {
+        await fetchTasks(pagination.page);
+      } else {
+        setTasks((prev) => prev.map((t) => (t.id === taskId ? response.data.task : t)));
+      }
+      if (statusChanged) await fetchProjects();
+    } catch (error: any) {
+      setTasks(previousTasks);
+      toast.error(error.response?.data?.error || 'Failed to move task');
+    }
   };
 
+  const handleBoardMove = ({ taskId, statusId, index }: BoardMove) =>
+    moveTask(
+      taskId,
+      tasks.filter((t) => t.statusId === statusId && t.id !== taskId),
+      index,
+      statuses.find((s) => s.id === statusId)
+    );
+
+  const handleListMove = ({ taskId, index }: GridMove) =>
+    moveTask(
+      taskId,
+      tasks.filter((t) => t.id !== taskId),
+      index
+    );
+
   // Create task
-  const handleCreateTask = async (data: { title: string; description: string }) => {
+  const handleCreateTask = async (data: TaskFormData) => {
     try {
       setIsLoading(true);
-      await apiClient.post('/api/tasks', {
-        title: data.title,
-        description: data.description,
-      });
+      await apiClient.post('/api/tasks', data);
       toast.success('Task created successfully');
       setDialogOpen(false);
-      await fetchTasks(1, search, status);
+      await Promise.all([fetchTasks(1), fetchTags(), fetchProjects()]);
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to create task');
     } finally {
@@ -122,19 +475,17 @@ export default function DashboardPage() {
   };
 
   // Update task
-  const handleUpdateTask = async (data: { title: string; description: string }) => {
+  const handleUpdateTask = async (data: TaskFormData) => {
     if (!selectedTask) return;
 
     try {
       setIsLoading(true);
-      await apiClient.patch(`/api/tasks/${selectedTask.id}`, {
-        title: data.title,
-        description: data.description,
-      });
+      await apiClient.patch(`/api/tasks/${selectedTask.id}`, data);
       toast.success('Task updated successfully');
       setDialogOpen(false);
       setSelectedTask(undefined);
-      await fetchTasks(pagination.page, search, status);
+      checklistChanged.current = false;
+      await Promise.all([fetchTasks(pagination.page), fetchTags(), fetchProjects()]);
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to update task');
     } finally {
@@ -142,14 +493,31 @@ export default function DashboardPage() {
     }
   };
 
-  // Toggle task status
-  const handleToggleStatus = async (taskId: string, newStatus: 'PENDING' | 'COMPLETED') => {
+  const handleTaskDialogOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open && checklistChanged.current) {
+      checklistChanged.current = false;
+      fetchTasks(pagination.page);
+    }
+  };
+
+  // Toggle task status, optionally checking off the rest of the checklist
+  const handleToggleStatus = async (taskId: string, newStatus: TaskStatus) => {
+    const task = tasks.find((t) => t.id === taskId);
+    const openItems = task ? task.progress.total - task.progress.completed : 0;
+    const completeChecklist =
+      newStatus === 'COMPLETED' &&
+      openItems > 0 &&
+      confirm(
+        `Also check off the ${openItems === 1 ? 'open checklist item' : `${openItems} open checklist items`}?`
+      );
+
     try {
-      await apiClient.patch(`/api/tasks/${taskId}`, { status: newStatus });
+      await apiClient.patch(`/api/tasks/${taskId}`, { status: newStatus, completeChecklist });
       toast.success('Task updated');
-      await fetchTasks(pagination.page, search, status);
+      await Promise.all([fetchTasks(pagination.page), fetchProjects()]);
     } catch (error: any) {
-      toast.error('Failed to update task');
+      toast.error(error.response?.data?.error || 'Failed to update task');
     }
   };
 
@@ -160,191 +528,465 @@ export default function DashboardPage() {
     try {
       await apiClient.delete(`/api/tasks/${taskId}`);
       toast.success('Task deleted successfully');
-      await fetchTasks(pagination.page, search, status);
+      await Promise.all([fetchTasks(pagination.page), fetchProjects()]);
     } catch (error: any) {
       toast.error('Failed to delete task');
     }
   };
 
+  // Create or update project
+  const handleSaveProject = async (data: ProjectFormData) => {
+    try {
+      setIsSavingProject(true);
+      if (selectedProject) {
+        await apiClient.patch(`/api/projects/${selectedProject.id}`, data);
+        toast.success('Project updated');
+        // Tasks show the project's name and icon
+        await Promise.all([fetchProjects(), fetchTasks(pagination.page)]);
+      } else {
+        const response = await apiClient.post('/api/projects', data);
+        toast.success('Project created');
+        await fetchProjects();
+        await handleFiltersChange({ project: response.data.project.id });
+      }
+      setProjectDialogOpen(false);
+      setSelectedProject(undefined);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save project');
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  // Archive or restore project
+  const handleToggleArchiveProject = async (project: SidebarProject) => {
+    try {
+      await apiClient.patch(`/api/projects/${project.id}`, { archived: !project.archivedAt });
+      toast.success(project.archivedAt ? 'Project restored' : 'Project archived');
+      if (!project.archivedAt && !showArchived && filters.project === project.id) {
+        await handleFiltersChange({ project: 'ALL' });
+      }
+      await fetchProjects();
+    } catch (error: any) {
+      toast.error('Failed to update project');
+    }
+  };
+
+  // Delete project; its tasks move to the Inbox
+  const handleDeleteProject = async (project: SidebarProject) => {
+    if (!confirm(`Delete the project "${project.name}"? Its tasks will be moved to the Inbox.`)) {
+      return;
+    }
+
+    try {
+      await apiClient.delete(`/api/projects/${project.id}`);
+      toast.success('Project deleted');
+      await fetchProjects();
+      if (filters.project === project.id) {
+        await handleFiltersChange({ project: 'ALL' });
+      } else {
+        await fetchTasks(pagination.page);
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete project');
+    }
+  };
+
+  const handleShowArchivedChange = async (show: boolean) => {
+    setShowArchived(show);
+    const current = projects.find((project) => project.id === filters.project);
+    if (!show && current?.archivedAt) {
+      await handleFiltersChange({ project: 'ALL' });
+    }
+    await fetchProjects(show);
+  };
+
   // Logout handler
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     router.push('/login');
   };
 
+  const hasActiveFilters =
+    !!filters.search ||
+    (view === 'list' && filters.status !== 'ALL') ||
+    filters.priority !== 'ALL' ||
+    filters.due !== 'ALL' ||
+    filters.tag !== 'ALL';
+
+  const currentProject = projects.find((project) => project.id === filters.project);
+  const viewTitle =
+    filters.project === 'ALL' ? 'All Tasks' : filters.project === 'inbox' ? 'Inbox' : currentProject?.name;
+
   const stats = {
-    total: pagination.total,
+    // Infinite scroll skips the total count, so show what has loaded so far
+    total: cursorPagination
+      ? `${tasks.length}${cursorPagination.hasMore ? '+' : ''}`
+      : pagination.total,
     completed: tasks.filter((t) => t.status === 'COMPLETED').length,
     pending: tasks.filter((t) => t.status === 'PENDING').length,
   };
 
   return (
     <ProtectedRoute>
-      <div className="min-h-screen bg-background">
-        {/* Header */}
-        <header className="border-b border-border bg-card">
-          <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
-            <div>
-              <h1 className="text-2xl font-bold">Task Manager</h1>
-              <p className="text-sm text-muted-foreground">Welcome back, {user?.name || user?.email}</p>
-            </div>
-            <Button
-              variant="outline"
-              onClick={handleLogout}
-              className="gap-2 bg-transparent"
-            >
-              <LogOut className="h-4 w-4" />
-              Sign Out
-            </Button>
-          </div>
-        </header>
-
-        {/* Main content */}
-        <main className="max-w-7xl mx-auto px-4 py-8">
-          {/* Stats */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-            <Card className="border border-border">
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">Total Tasks</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold">{stats.total}</div>
-              </CardContent>
-            </Card>
-
-            <Card className="border border-border">
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-                  <Circle className="h-4 w-4 text-yellow-500" />
-                  Pending
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold">{stats.pending}</div>
-              </CardContent>
-            </Card>
-
-            <Card className="border border-border">
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-                  <CheckCircle2 className="h-4 w-4 text-green-500" />
-                  Completed
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold">{stats.completed}</div>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Toolbar */}
-          <div className="flex flex-col md:flex-row gap-4 mb-8">
-            <Input
-              placeholder="Search tasks..."
-              value={search}
-              onChange={(e) => handleSearch(e.target.value)}
-              className="md:flex-1"
-            />
-
-            <Select value={status} onValueChange={(val: any) => handleFilterChange(val)}>
-              <SelectTrigger className="md:w-48">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="ALL">All Tasks</SelectItem>
-                <SelectItem value="PENDING">Pending</SelectItem>
-                <SelectItem value="COMPLETED">Completed</SelectItem>
-              </SelectContent>
-            </Select>
-
-            <Button
-              onClick={() => {
-                setSelectedTask(undefined);
-                setDialogOpen(true);
-              }}
-              className="bg-primary hover:bg-primary/90 gap-2"
-            >
-              <Plus className="h-4 w-4" />
-              New Task
-            </Button>
-          </div>
-
-          {/* Tasks grid */}
-          {isLoading && tasks.length === 0 ? (
-            <div className="flex items-center justify-center py-12">
-              <Loader2 className="h-8 w-8 animate-spin text-primary" />
-            </div>
-          ) : tasks.length === 0 ? (
-            <Card className="border border-border text-center py-12">
-              <CardContent>
-                <p className="text-muted-foreground mb-4">
-                  {search || status !== 'ALL' ? 'No tasks found.' : 'No tasks yet. Create one to get started!'}
-                </p>
-                {!search && status === 'ALL' && (
-                  <Button
-                    onClick={() => {
-                      setSelectedTask(undefined);
-                      setDialogOpen(true);
-                    }}
-                    className="gap-2"
-                  >
-                    <Plus className="h-4 w-4" />
-                    Create First Task
+      <SidebarProvider>
+        <ProjectSidebar
+          projects={projects}
+          inboxPendingCount={inboxPendingCount}
+          selected={filters.project}
+          onSelect={(project) => handleFiltersChange({ project })}
+          onCreate={() => {
+            setSelectedProject(undefined);
+            setProjectDialogOpen(true);
+          }}
+          onEdit={(project) => {
+            setSelectedProject(project);
+            setProjectDialogOpen(true);
+          }}
+          onToggleArchive={handleToggleArchiveProject}
+          onDelete={handleDeleteProject}
+          showArchived={showArchived}
+          onShowArchivedChange={handleShowArchivedChange}
+        />
+
+        <SidebarInset className="bg-background">
+          {/* Header */}
+          <header className="border-b border-border bg-card">
+            <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <SidebarTrigger />
+                <div>
+                  <h1 className="text-2xl font-bold">{viewTitle}</h1>
+                  <p className="text-sm text-muted-foreground">Welcome back, {user?.name || user?.email}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {user?.role === 'ADMIN' && (
+                  <Button variant="outline" asChild className="gap-2 bg-transparent">
+                    <Link href="/admin">
+                      <Shield className="h-4 w-4" />
+                      Admin
+                    </Link>
                   </Button>
                 )}
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {tasks.map((task) => (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  onToggleStatus={handleToggleStatus}
-                  onEdit={(task) => {
-                    setSelectedTask(task);
-                    setDialogOpen(true);
-                  }}
-                  onDelete={handleDeleteTask}
-                  isLoading={isLoading}
-                />
-              ))}
+                <Button variant="outline" asChild className="gap-2 bg-transparent">
+                  <Link href="/settings">
+                    <Settings className="h-4 w-4" />
+                    Settings
+                  </Link>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleLogout}
+                  className="gap-2 bg-transparent"
+                >
+                  <LogOut className="h-4 w-4" />
+                  Sign Out
+                </Button>
+              </div>
+            </div>
+          </header>
+
+          {/* Main content */}
+          <main className="max-w-7xl mx-auto px-4 py-8">
+            <ImpersonationBanner />
+            <VerifyEmailBanner />
+
+            {/* Stats */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+              <Card className="border border-border">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Total Tasks</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">{stats.total}</div>
+                </CardContent>
+              </Card>
+
+              <Card className="border border-border">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <Circle className="h-4 w-4 text-yellow-500" />
+                    Pending
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">{stats.pending}</div>
+                </CardContent>
+              </Card>
+
+              <Card className="border border-border">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <CheckCircle2 className="h-4 w-4 text-green-500" />
+                    Completed
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">{stats.completed}</div>
+                </CardContent>
+              </Card>
             </div>
-          )}
 
-          {/* Pagination */}
-          {pagination.totalPages > 1 && (
-            <div className="mt-8 flex justify-center gap-2">
-              <Button
+            {/* Toolbar */}
+            <div className="flex flex-col md:flex-row md:flex-wrap gap-4 mb-8">
+              <Input
+                placeholder="Search tasks..."
+                value={filters.search}
+                onChange={(e) => handleFiltersChange({ search: e.target.value })}
+                className="md:flex-1"
+              />
+
+              {view === 'list' && (
+                <Select value={filters.status} onValueChange={(val: any) => handleFiltersChange({ status: val })}>
+                  <SelectTrigger className="md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ALL">All Tasks</SelectItem>
+                    <SelectItem value="PENDING">Pending</SelectItem>
+                    <SelectItem value="COMPLETED">Completed</SelectItem>
+                    {statuses.length > 0 && <SelectSeparator />}
+                    {statuses.map((status) => (
+                      <SelectItem key={status.id} value={status.id}>
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+                        {status.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {view === 'list' && (
+                <Select value={filters.sort} onValueChange={handleSortChange}>
+                  <SelectTrigger className="md:w-48" aria-label="Sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                    {/* A sort saved through the API that the menu does not offer */}
+                    {!SORT_OPTIONS.some((option) => option.value === filters.sort) && (
+                      <SelectItem value={filters.sort}>Custom sort</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <Select value={filters.priority} onValueChange={(val: any) => handleFiltersChange({ priority: val })}>
+                <SelectTrigger className="md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All Priorities</SelectItem>
+                  {TASK_PRIORITIES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TASK_PRIORITY_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={filters.due} onValueChange={(val: any) => handleFiltersChange({ due: val })}>
+                <SelectTrigger className="md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">Any Due Date</SelectItem>
+                  <SelectItem value="OVERDUE">Overdue</SelectItem>
+                  <SelectItem value="TODAY">Due Today</SelectItem>
+                  <SelectItem value="WEEK">Due in Next 7 Days</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {tags.length > 0 && (
+                <Select value={filters.tag} onValueChange={(val) => handleFiltersChange({ tag: val })}>
+                  <SelectTrigger className="md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ALL">All Tags</SelectItem>
+                    {tags.map((tag) => (
+                      <SelectItem key={tag.id} value={tag.id}>
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                        {tag.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {view === 'list' && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="infinite-scroll"
+                    checked={paging === 'infinite'}
+                    onCheckedChange={handlePagingChange}
+                  />
+                  <Label htmlFor="infinite-scroll" className="whitespace-nowrap text-sm">
+                    Infinite scroll
+                  </Label>
+                </div>
+              )}
+
+              <ToggleGroup
+                type="single"
                 variant="outline"
-                onClick={() => fetchTasks(Math.max(1, pagination.page - 1), search, status)}
-                disabled={pagination.page === 1 || isLoading}
+                value={view}
+                onValueChange={handleViewChange}
+                aria-label="Layout"
               >
-                Previous
-              </Button>
-              <span className="flex items-center px-4 py-2 text-sm text-muted-foreground">
-                Page {pagination.page} of {pagination.totalPages}
-              </span>
+                <ToggleGroupItem value="list" aria-label="List view">
+                  <LayoutGrid className="h-4 w-4" />
+                </ToggleGroupItem>
+                <ToggleGroupItem value="board" aria-label="Board view">
+                  <Columns3 className="h-4 w-4" />
+                </ToggleGroupItem>
+              </ToggleGroup>
+
               <Button
-                variant="outline"
-                onClick={() => fetchTasks(Math.min(pagination.totalPages, pagination.page + 1), search, status)}
-                disabled={pagination.page === pagination.totalPages || isLoading}
+                onClick={() => {
+                  setSelectedTask(undefined);
+                  setDialogOpen(true);
+                }}
+                className="bg-primary hover:bg-primary/90 gap-2"
               >
-                Next
+                <Plus className="h-4 w-4" />
+                New Task
               </Button>
             </div>
-          )}
-        </main>
-
-        {/* Task dialog */}
-        <TaskDialog
-          open={dialogOpen}
-          onOpenChange={setDialogOpen}
-          task={selectedTask}
-          onSave={selectedTask ? handleUpdateTask : handleCreateTask}
-          isLoading={isLoading}
+
+            {/* Tasks grid */}
+            {isLoading && tasks.length === 0 ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : tasks.length === 0 ? (
+              <Card className="border border-border text-center py-12">
+                <CardContent>
+                  <p className="text-muted-foreground mb-4">
+                    {hasActiveFilters ? 'No tasks found.' : 'No tasks yet. Create one to get started!'}
+                  </p>
+                  {!hasActiveFilters && (
+                    <Button
+                      onClick={() => {
+                        setSelectedTask(undefined);
+                        setDialogOpen(true);
+                      }}
+                      className="gap-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      Create First Task
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ) : view === 'board' ? (
+              <>
+                {pagination.total > tasks.length && (
+                  <p className="mb-4 text-sm text-muted-foreground">
+                    Showing the first {tasks.length} of {pagination.total} tasks. Narrow the filters
+                    to see the rest.
+                  </p>
+                )}
+                <TaskBoard
+                  statuses={statuses}
+                  tasks={tasks}
+                  onMove={handleBoardMove}
+                  onToggleStatus={handleToggleStatus}
+                  onEdit={(task) => {
+                    setSelectedTask(task);
+                    setDialogOpen(true);
+                  }}
+                  onDelete={handleDeleteTask}
+                  showProject={filters.project === 'ALL'}
+                />
+              </>
+            ) : (
+              <TaskGrid
+                tasks={tasks}
+                onToggleStatus={handleToggleStatus}
+                onEdit={(task) => {
+                  setSelectedTask(task);
+                  setDialogOpen(true);
+                }}
+                onDelete={handleDeleteTask}
+                onReorder={filters.sort === 'position' ? handleListMove : undefined}
+                isLoading={isLoading}
+                showProject={filters.project === 'ALL'}
+              />
+            )}
+
+            {/* Infinite scroll */}
+            {view === 'list' && cursorPagination && (
+              <div ref={loadMoreSentinel} className="mt-8 flex justify-center">
+                {isLoadingMore ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                ) : (
+                  !cursorPagination.hasMore &&
+                  tasks.length > 0 && (
+                    <p className="text-sm text-muted-foreground">No more tasks</p>
+                  )
+                )}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {view === 'list' && !cursorPagination && pagination.totalPages > 1 && (
+              <div className="mt-8 flex justify-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchTasks(Math.max(1, pagination.page - 1))}
+                  disabled={pagination.page === 1 || isLoading}
+                >
+                  Previous
+                </Button>
+                <span className="flex items-center px-4 py-2 text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => fetchTasks(Math.min(pagination.totalPages, pagination.page + 1))}
+                  disabled={pagination.page === pagination.totalPages || isLoading}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </main>
+
+          {/* Task dialog */}
+          <TaskDialog
+            open={dialogOpen}
+            onOpenChange={handleTaskDialogOpenChange}
+            task={selectedTask}
+            onSave={selectedTask ? handleUpdateTask : handleCreateTask}
+            isLoading={isLoading}
+            statuses={statuses}
+            projects={projects.filter(
+              (project) => !project.archivedAt || project.id === selectedTask?.projectId
+            )}
+            defaultProjectId={
+              filters.project === 'ALL' || filters.project === 'inbox' ? null : filters.project
+            }
+            onChecklistChange={() => {
+              checklistChanged.current = true;
+            }}
+          />
+        </SidebarInset>
+
+        {/* Project dialog */}
+        <ProjectDialog
+          open={projectDialogOpen}
+          onOpenChange={setProjectDialogOpen}
+          project={selectedProject}
+          onSave={handleSaveProject}
+          isLoading={isSavingProject}
         />
-      </div>
+      </SidebarProvider>
     </ProtectedRoute>
   );
 }
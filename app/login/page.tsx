@@ -4,16 +4,18 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, AuthRequestError } from '@/contexts/AuthContext';
+import { LockoutNotice } from '@/components/LockoutNotice';
+import { MfaChallenge } from '@/components/MfaChallenge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { Lock, Mail } from 'lucide-react';
+import { Building2, Lock, Mail } from 'lucide-react';
 
 export default function LoginPage() {
   const router = useRouter();
@@ -22,6 +24,38 @@ export default function LoginPage() {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
+  // Password sign-in or an emailed sign-in link
+  const [mode, setMode] = useState<'password' | 'magic-link'>('password');
+  const [isLinkSent, setIsLinkSent] = useState(false);
+
+  // Set when the account needs a second factor
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+
+  // Set while the server is rate limiting sign-in attempts
+  const [lockout, setLockout] = useState<{ message: string; until: number } | null>(null);
+  const clearLockout = useCallback(() => setLockout(null), []);
+
+  // Name of the single sign-on provider, when one is configured
+  const [ssoProvider, setSsoProvider] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/oidc')
+      .then((response) => response.json())
+      .then((data) => setSsoProvider(data.enabled ? data.providerName : null))
+      .catch(() => setSsoProvider(null));
+  }, []);
+
+  const handleAuthError = (error: any, fallback: string) => {
+    if (error instanceof AuthRequestError && error.retryAfter) {
+      setLockout({
+        message: error.message,
+        until: Date.now() + error.retryAfter * 1000,
+      });
+      return;
+    }
+    toast.error(error.message || fallback);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -32,16 +66,70 @@ export default function LoginPage() {
 
     try {
       setIsLoading(true);
-      await login(email, password);
+      const result = await login(email, password);
+      if (result.mfaRequired) {
+        setMfaToken(result.mfaToken);
+        return;
+      }
       toast.success('Logged in successfully');
       router.push('/dashboard');
     } catch (error: any) {
-      toast.error(error.message || 'Login failed');
+      handleAuthError(error, 'Login failed');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleMagicLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      toast.error('Please enter your email address');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to send sign-in link');
+      }
+
+      setIsLinkSent(true);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send sign-in link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleMode = () => {
+    setMode(mode === 'password' ? 'magic-link' : 'password');
+    setIsLinkSent(false);
+    setPassword('');
+  };
+
+  if (mfaToken) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-background dark:from-background dark:via-background dark:to-background flex items-center justify-center p-4">
+        <MfaChallenge
+          mfaToken={mfaToken}
+          onSuccess={() => router.push('/dashboard')}
+          onCancel={() => {
+            setMfaToken(null);
+            setPassword('');
+          }}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-background dark:from-background dark:via-background dark:to-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md border border-border">
@@ -50,47 +138,95 @@ export default function LoginPage() {
           <CardDescription>Sign in to your Task Manager account</CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email Address</Label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="you@example.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="pl-10"
-                  disabled={isLoading}
-                />
+          {lockout && (
+            <LockoutNotice message={lockout.message} until={lockout.until} onExpire={clearLockout} />
+          )}
+          {isLinkSent ? (
+            <p className="text-sm text-muted-foreground">
+              If an account exists for <span className="font-medium text-foreground">{email}</span>,
+              a sign-in link is on its way. Check your inbox.
+            </p>
+          ) : (
+            <form
+              onSubmit={mode === 'password' ? handleSubmit : handleMagicLinkSubmit}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="email">Email Address</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="pl-10"
+                    disabled={isLoading}
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="pl-10"
-                  disabled={isLoading}
-                />
-              </div>
-            </div>
+              {mode === 'password' && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-10"
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+              )}
 
-            <Button
-              type="submit"
-              className="w-full bg-primary hover:bg-primary/90"
-              disabled={isLoading}
+              <Button
+                type="submit"
+                className="w-full bg-primary hover:bg-primary/90"
+                disabled={isLoading || (mode === 'password' && !!lockout)}
+              >
+                {mode === 'password'
+                  ? isLoading ? 'Signing in...' : 'Sign In'
+                  : isLoading ? 'Sending...' : 'Email Me a Sign-in Link'}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-4 text-center text-sm">
+            <button
+              type="button"
+              onClick={handleToggleMode}
+              className="text-primary hover:underline font-medium"
             >
-              {isLoading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+              {mode === 'password' ? 'Email me a sign-in link instead' : 'Sign in with a password instead'}
+            </button>
+          </div>
+
+          {ssoProvider && (
+            <div className="mt-4 space-y-4">
+              <div className="flex items-center gap-2 text-xs uppercase text-muted-foreground">
+                <span className="h-px flex-1 bg-border" />
+                or
+                <span className="h-px flex-1 bg-border" />
+              </div>
+              <Button variant="outline" className="w-full gap-2" asChild>
+                <a href="/api/auth/oidc/authorize">
+                  <Building2 className="h-4 w-4" />
+                  Continue with {ssoProvider}
+                </a>
+              </Button>
+            </div>
+          )}
 
           <div className="mt-4 text-center text-sm">
             <span className="text-muted-foreground">{"Don't have an account? "}</span>
@@ -0,0 +1,58 @@
+/**
+ * Settings Page - Account and security settings
+ */
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ProfileSettings } from '@/components/ProfileSettings';
+import { ChangePasswordSettings } from '@/components/ChangePasswordSettings';
+import { TagSettings } from '@/components/TagSettings';
+import { WorkflowSettings } from '@/components/WorkflowSettings';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
+import { AccessTokenSettings } from '@/components/AccessTokenSettings';
+import { AccountDataSettings } from '@/components/AccountDataSettings';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-background">
+        {/* Header */}
+        <header className="border-b border-border bg-card">
+          <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold">Settings</h1>
+              <p className="text-sm text-muted-foreground">{user?.email}</p>
+            </div>
+            <Button variant="outline" asChild className="gap-2 bg-transparent">
+              <Link href="/dashboard">
+                <ArrowLeft className="h-4 w-4" />
+                Back to tasks
+              </Link>
+            </Button>
+          </div>
+        </header>
+
+        {/* Main content */}
+        <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+          <ProfileSettings />
+          <ChangePasswordSettings />
+          <WorkflowSettings />
+          <TagSettings />
+          <TwoFactorSettings />
+          <ActiveSessions />
+          <AccessTokenSettings />
+          <AccountDataSettings />
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * SSO Callback Page Component
+ * Landing page after the OpenID Connect provider: finishes the sign-in, asks for
+ * the second factor when needed, or shows why it failed
+ */
+
+'use client';
+
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { MfaChallenge } from '@/components/MfaChallenge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, XCircle } from 'lucide-react';
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_configured: 'Single sign-on is not configured.',
+  provider_unavailable: 'The sign-in provider could not be reached. Please try again later.',
+  provider_denied: 'Sign-in was cancelled at the provider.',
+  invalid_request: 'The sign-in request expired or was tampered with. Please try again.',
+  account_not_linked:
+    'Your provider account could not be linked. It needs a verified email address, and new accounts may be disabled.',
+  account_disabled: 'This account has been disabled.',
+};
+
+function SsoCallbackResult() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { completeSsoLogin } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    // The one-time code must only be exchanged once, even in Strict Mode
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+
+    const code = searchParams.get('code');
+    const errorCode = searchParams.get('error');
+
+    if (!code) {
+      setError(ERROR_MESSAGES[errorCode || ''] || 'Single sign-on failed. Please try again.');
+      return;
+    }
+
+    completeSsoLogin(code)
+      .then((result) => {
+        if (result.mfaRequired) {
+          setMfaToken(result.mfaToken);
+          return;
+        }
+        toast.success('Logged in successfully');
+        router.replace('/dashboard');
+      })
+      .catch((err: Error) => setError(err.message || 'Single sign-on failed'));
+  }, [searchParams, completeSsoLogin, router]);
+
+  if (mfaToken) {
+    return (
+      <MfaChallenge
+        mfaToken={mfaToken}
+        onSuccess={() => router.replace('/dashboard')}
+        onCancel={() => router.replace('/login')}
+      />
+    );
+  }
+
+  if (!error) {
+    return (
+      <Card className="w-full max-w-md border border-border">
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md border border-border">
+      <CardHeader className="space-y-2">
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <XCircle className="h-6 w-6 text-destructive" />
+          Sign-in Failed
+        </CardTitle>
+        <CardDescription>{error}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button asChild className="w-full bg-primary hover:bg-primary/90">
+          <Link href="/login">Back to sign in</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SsoCallbackPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-background dark:from-background dark:via-background dark:to-background flex items-center justify-center p-4">
+      <Suspense fallback={null}>
+        <SsoCallbackResult />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Verify Email Page Component
+ * Landing page after following the verification link
+ */
+
+'use client';
+
+import React, { Suspense, useEffect } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+function VerifyEmailResult() {
+  const searchParams = useSearchParams();
+  const { isAuthenticated, updateUser } = useAuth();
+  const isSuccess = searchParams.get('status') === 'success';
+
+  useEffect(() => {
+    if (isSuccess && isAuthenticated) {
+      updateUser({ emailVerified: true });
+    }
+  }, [isSuccess, isAuthenticated, updateUser]);
+
+  return (
+    <>
+      <CardHeader className="space-y-2">
+        <CardTitle className="text-2xl flex items-center gap-2">
+          {isSuccess ? (
+            <CheckCircle2 className="h-6 w-6 text-green-500" />
+          ) : (
+            <XCircle className="h-6 w-6 text-destructive" />
+          )}
+          {isSuccess ? 'Email Verified' : 'Verification Failed'}
+        </CardTitle>
+        <CardDescription>
+          {isSuccess
+            ? 'Your email address has been confirmed. You now have full access to your tasks.'
+            : 'This verification link is invalid or has expired. Sign in to request a new one.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button asChild className="w-full bg-primary hover:bg-primary/90">
+          <Link href={isAuthenticated ? '/dashboard' : '/login'}>
+            {isAuthenticated ? 'Go to Dashboard' : 'Sign In'}
+          </Link>
+        </Button>
+      </CardContent>
+    </>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-background dark:from-background dark:via-background dark:to-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md border border-border">
+        <Suspense fallback={null}>
+          <VerifyEmailResult />
+        </Suspense>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Personal access token settings
+ * Create, list and revoke API tokens for scripts and integrations
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Copy, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface AccessToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: 'READ' | 'WRITE';
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export function AccessTokenSettings() {
+  const [tokens, setTokens] = useState<AccessToken[] | null>(null);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<'READ' | 'WRITE'>('READ');
+  const [expiry, setExpiry] = useState('90');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await apiClient.get('/api/tokens');
+      setTokens(response.data.tokens);
+    } catch (error: any) {
+      toast.error('Failed to load access tokens');
+      console.error('[v0] Fetch tokens error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Please give the token a name');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await apiClient.post('/api/tokens', {
+        name: name.trim(),
+        scope,
+        expiresInDays: expiry === 'never' ? undefined : parseInt(expiry),
+      });
+      setNewToken(response.data.token);
+      setName('');
+      await fetchTokens();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create token');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    if (!confirm('Revoke this token? Scripts using it will stop working.')) return;
+
+    try {
+      await apiClient.delete(`/api/tokens/${tokenId}`);
+      toast.success('Token revoked');
+      setTokens((prev) => prev?.filter((t) => t.id !== tokenId) ?? null);
+    } catch (error: any) {
+      toast.error('Failed to revoke token');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast.success('Token copied to clipboard');
+  };
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle>Personal Access Tokens</CardTitle>
+        <CardDescription>
+          Tokens let scripts call the tasks API with{' '}
+          <code className="text-xs">Authorization: Bearer pat_...</code>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newToken && (
+          <div className="space-y-2 rounded-md border border-green-500/50 p-4">
+            <p className="text-sm font-medium">
+              {"Copy your new token now. You won't be able to see it again."}
+            </p>
+            <div className="flex gap-2">
+              <Input value={newToken} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" onClick={handleCopy} className="gap-2">
+                <Copy className="h-4 w-4" />
+                Copy
+              </Button>
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-[1fr_auto_auto_auto] md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              placeholder="e.g. Nightly import script"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Access</Label>
+            <Select value={scope} onValueChange={(val: any) => setScope(val)}>
+              <SelectTrigger className="md:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="READ">Read</SelectItem>
+                <SelectItem value="WRITE">Read & write</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="md:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">30 days</SelectItem>
+                <SelectItem value="90">90 days</SelectItem>
+                <SelectItem value="365">1 year</SelectItem>
+                <SelectItem value="never">Never</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isLoading} className="gap-2">
+            <KeyRound className="h-4 w-4" />
+            {isLoading ? 'Creating...' : 'Create token'}
+          </Button>
+        </form>
+
+        {!tokens ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No access tokens yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {tokens.map((token) => (
+              <li key={token.id} className="flex items-center justify-between gap-4 py-3">
+                <div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {token.name}
+                    <Badge variant="outline">{token.scope === 'WRITE' ? 'Read & write' : 'Read'}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-mono">{token.prefix}…</span> ·{' '}
+                    {token.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}{' '}
+                    ·{' '}
+                    {token.expiresAt
+                      ? `Expires ${format(new Date(token.expiresAt), 'PP')}`
+                      : 'Never expires'}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRevoke(token.id)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
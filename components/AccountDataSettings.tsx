@@ -0,0 +1,112 @@
+/**
+ * Account data settings
+ * Download a personal data export and delete the account
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Download, Loader2 } from 'lucide-react';
+
+export function AccountDataSettings() {
+  const router = useRouter();
+  const { deleteAccount } = useAuth();
+  const [password, setPassword] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const response = await apiClient.get('/api/me/export', { responseType: 'blob' });
+
+      // Save the archive under the filename chosen by the server
+      const disposition: string = response.headers['content-disposition'] || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'task-manager-export.zip';
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error('Failed to export your data');
+      console.error('[v0] Export data error:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) {
+      toast.error('Please enter your password');
+      return;
+    }
+    if (!confirm('Delete your account? You will be signed out of every device.')) return;
+
+    try {
+      setIsDeleting(true);
+      await deleteAccount(password);
+      toast.success('Account scheduled for deletion. Sign in again to cancel.');
+      router.push('/login');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete account');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>Download everything you have stored, or delete your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            A zip archive with your profile and tasks as JSON, plus your tasks as CSV.
+          </p>
+          <Button variant="outline" onClick={handleExport} disabled={isExporting} className="gap-2">
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+            Export data
+          </Button>
+        </div>
+
+        <form onSubmit={handleDelete} className="space-y-4 border-t border-border pt-6">
+          <p className="text-sm text-muted-foreground">
+            Your account and all tasks are permanently deleted after a grace period.
+            Signing in before then cancels the deletion.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-password">Confirm your password</Label>
+            <Input
+              id="delete-account-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isDeleting}
+            />
+          </div>
+          <Button type="submit" variant="destructive" disabled={isDeleting}>
+            {isDeleting ? 'Deleting...' : 'Delete account'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Active sessions list for the settings page
+ * Shows signed-in devices with per-device revoke and "log out everywhere"
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Laptop, Loader2, LogOut, Smartphone } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+  impersonated: boolean;
+}
+
+/**
+ * Turn a user agent string into a short "Browser on OS" label
+ */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+
+  const os =
+    /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export function ActiveSessions() {
+  const router = useRouter();
+  const { logoutAll } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    try {
+      setIsLoading(true);
+      const response = await apiClient.get('/api/auth/sessions');
+      setSessions(response.data.sessions);
+    } catch (error: any) {
+      toast.error('Failed to load devices');
+      console.error('[v0] Fetch sessions error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      setRevokingId(sessionId);
+      await apiClient.delete(`/api/auth/sessions/${sessionId}`);
+      toast.success('Device signed out');
+      setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to sign out device');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+
+    try {
+      await logoutAll();
+      toast.success('Signed out of all devices');
+      router.push('/login');
+    } catch (error: any) {
+      toast.error('Failed to sign out of all devices');
+    }
+  };
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle>Active Devices</CardTitle>
+        <CardDescription>Devices currently signed in to your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-border">
+            {sessions.map((session) => {
+              const Icon = /Mobile|Android|iPhone/.test(session.userAgent || '')
+                ? Smartphone
+                : Laptop;
+
+              return (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <Icon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div>
+                      <div className="flex items-center gap-2 text-sm font-medium">
+                        {describeDevice(session.userAgent)}
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                        {session.impersonated && <Badge variant="outline">Support access</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress || 'Unknown IP'} · Last active{' '}
+                        {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={revokingId === session.id}
+                    >
+                      {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={handleLogoutAll}
+          className="gap-2 text-destructive hover:text-destructive"
+        >
+          <LogOut className="h-4 w-4" />
+          Sign out everywhere
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
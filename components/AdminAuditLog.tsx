@@ -0,0 +1,82 @@
+/**
+ * Recent admin actions for the admin console
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface AuditEvent {
+  id: string;
+  actorEmail: string;
+  action: string;
+  targetEmail: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'user.disable': 'disabled',
+  'user.enable': 'enabled',
+  'user.force_password_reset': 'forced a password reset for',
+  'user.impersonate': 'signed in as',
+};
+
+export function AdminAuditLog({ refreshKey }: { refreshKey: number }) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        setIsLoading(true);
+        const response = await apiClient.get('/api/admin/audit-log');
+        setEvents(response.data.events);
+      } catch (error: any) {
+        toast.error('Failed to load audit log');
+        console.error('[v0] Fetch audit log error:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [refreshKey]);
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>Recent admin actions on user accounts</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No admin actions yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {events.map((event) => (
+              <li key={event.id} className="py-3 text-sm">
+                <span className="font-medium">{event.actorEmail}</span>{' '}
+                {ACTION_LABELS[event.action] || event.action}{' '}
+                <span className="font-medium">{event.targetEmail}</span>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                  {event.ipAddress && ` · ${event.ipAddress}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
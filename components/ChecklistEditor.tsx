@@ -0,0 +1,240 @@
+/**
+ * Checklist editor for the task dialog
+ * For an existing task every change is saved right away; for a new task the
+ * items are kept locally and sent along when the task is created
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { CHECKLIST_ITEM_MAX_LENGTH, CHECKLIST_MAX_ITEMS, ChecklistItemSummary } from '@/lib/tasks';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+
+interface ChecklistEditorProps {
+  // Task whose checklist is edited; omitted while creating a task
+  taskId?: string;
+  items: ChecklistItemSummary[];
+  onItemsChange: (items: ChecklistItemSummary[]) => void;
+  // Called after a change was saved to the server
+  onSaved?: () => void;
+  disabled?: boolean;
+}
+
+// Ids for items that only exist in the browser so far
+let localItemCount = 0;
+
+export function ChecklistEditor({
+  taskId,
+  items,
+  onItemsChange,
+  onSaved,
+  disabled,
+}: ChecklistEditorProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const completedCount = items.filter((item) => item.completed).length;
+  const isFull = items.length >= CHECKLIST_MAX_ITEMS;
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title || isFull) return;
+
+    if (!taskId) {
+      localItemCount += 1;
+      onItemsChange([...items, { id: `local-${localItemCount}`, title, completed: false }]);
+      setNewTitle('');
+      return;
+    }
+
+    try {
+      setIsAdding(true);
+      const response = await apiClient.post(`/api/tasks/${taskId}/checklist`, { title });
+      onItemsChange([...items, response.data.item]);
+      setNewTitle('');
+      onSaved?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to add checklist item');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // Returns false when the change was rejected
+  const handleUpdate = async (
+    item: ChecklistItemSummary,
+    changes: { title?: string; completed?: boolean }
+  ) => {
+    if (changes.title !== undefined) {
+      const title = changes.title.trim();
+      if (title === item.title) return true;
+      if (!title) return false;
+      changes = { ...changes, title };
+    }
+
+    const previous = items;
+    onItemsChange(items.map((i) => (i.id === item.id ? { ...i, ...changes } : i)));
+    if (!taskId) return true;
+
+    try {
+      await apiClient.patch(`/api/tasks/${taskId}/checklist/${item.id}`, changes);
+      onSaved?.();
+      return true;
+    } catch (error: any) {
+      onItemsChange(previous);
+      toast.error(error.response?.data?.error || 'Failed to update checklist item');
+      return false;
+    }
+  };
+
+  const handleDelete = async (item: ChecklistItemSummary) => {
+    const previous = items;
+    onItemsChange(items.filter((i) => i.id !== item.id));
+    if (!taskId) return;
+
+    try {
+      await apiClient.delete(`/api/tasks/${taskId}/checklist/${item.id}`);
+      onSaved?.();
+    } catch (error: any) {
+      onItemsChange(previous);
+      toast.error('Failed to delete checklist item');
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const reordered = [...items];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    const previous = items;
+    onItemsChange(reordered);
+    if (!taskId) return;
+
+    try {
+      await apiClient.put(`/api/tasks/${taskId}/checklist`, {
+        itemIds: reordered.map((item) => item.id),
+      });
+      onSaved?.();
+    } catch (error: any) {
+      onItemsChange(previous);
+      toast.error('Failed to reorder checklist');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <div className="flex items-center gap-3">
+          <Progress value={(completedCount / items.length) * 100} className="h-2" />
+          <span className="shrink-0 text-xs text-muted-foreground">
+            {completedCount}/{items.length}
+          </span>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-1">
+            {taskId && (
+              <Checkbox
+                checked={item.completed}
+                onCheckedChange={(checked) => handleUpdate(item, { completed: checked === true })}
+                disabled={disabled}
+                aria-label={`Mark "${item.title}" as done`}
+                className="mr-1"
+              />
+            )}
+            <Input
+              defaultValue={item.title}
+              aria-label="Checklist item"
+              maxLength={CHECKLIST_ITEM_MAX_LENGTH}
+              disabled={disabled}
+              onBlur={async (e) => {
+                const input = e.currentTarget;
+                if (!(await handleUpdate(item, { title: input.value }))) {
+                  input.value = item.title;
+                }
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  e.currentTarget.blur();
+                }
+              }}
+              className={`h-8 flex-1 ${item.completed ? 'line-through text-muted-foreground' : ''}`}
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => handleMove(index, -1)}
+              disabled={disabled || index === 0}
+              aria-label="Move up"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => handleMove(index, 1)}
+              disabled={disabled || index === items.length - 1}
+              aria-label="Move down"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+              onClick={() => handleDelete(item)}
+              disabled={disabled}
+              aria-label={`Remove "${item.title}"`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {/* Enter adds an item instead of submitting the surrounding task form */}
+      <div className="flex items-center gap-2">
+        <Input
+          id="checklist"
+          placeholder={isFull ? 'Checklist is full' : 'Add an item...'}
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          maxLength={CHECKLIST_ITEM_MAX_LENGTH}
+          disabled={disabled || isAdding || isFull}
+          className="h-8"
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={handleAdd}
+          disabled={disabled || isAdding || isFull || !newTitle.trim()}
+          className="gap-1"
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Round color button that opens a palette of label colors
+ * Used for tags and projects
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { LABEL_COLORS } from '@/lib/tasks';
+import { Check } from 'lucide-react';
+
+interface ColorSwatchPickerProps {
+  color: string;
+  onChange: (color: string) => void;
+  disabled?: boolean;
+}
+
+export function ColorSwatchPicker({ color, onChange, disabled }: ColorSwatchPickerProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          aria-label="Change color"
+          disabled={disabled}
+        >
+          <span className="h-4 w-4 rounded-full" style={{ backgroundColor: color }} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2" align="start">
+        <div className="grid grid-cols-5 gap-2">
+          {LABEL_COLORS.map((swatch) => (
+            <button
+              key={swatch}
+              type="button"
+              aria-label={swatch}
+              onClick={() => onChange(swatch)}
+              className="flex h-6 w-6 items-center justify-center rounded-full"
+              style={{ backgroundColor: swatch }}
+            >
+              {swatch === color && <Check className="h-3 w-3 text-white" />}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Due date picker for the task dialog
+ * A calendar popover for the day plus an optional time; without a time the
+ * task is due by the end of that day
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface DueDatePickerProps {
+  date: Date | undefined;
+  time: string;
+  onDateChange: (date: Date | undefined) => void;
+  onTimeChange: (time: string) => void;
+  disabled?: boolean;
+}
+
+export function DueDatePicker({
+  date,
+  time,
+  onDateChange,
+  onTimeChange,
+  disabled,
+}: DueDatePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="flex gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id="dueDate"
+            type="button"
+            variant="outline"
+            className={`flex-1 justify-start gap-2 font-normal ${date ? '' : 'text-muted-foreground'}`}
+            disabled={disabled}
+          >
+            <CalendarIcon className="h-4 w-4" />
+            {date ? format(date, 'PPP') : 'No due date'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={date}
+            onSelect={(day) => {
+              onDateChange(day);
+              setOpen(false);
+            }}
+            autoFocus
+          />
+        </PopoverContent>
+      </Popover>
+
+      <Input
+        type="time"
+        aria-label="Due time"
+        value={time}
+        onChange={(e) => onTimeChange(e.target.value)}
+        disabled={disabled || !date}
+        className="w-32"
+      />
+
+      {date && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          aria-label="Clear due date"
+          onClick={() => {
+            onDateChange(undefined);
+            onTimeChange('');
+          }}
+          disabled={disabled}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
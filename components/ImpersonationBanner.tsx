@@ -0,0 +1,47 @@
+/**
+ * Banner shown while an admin is signed in as another user
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { UserCog } from 'lucide-react';
+
+export function ImpersonationBanner() {
+  const router = useRouter();
+  const { user, isImpersonating, stopImpersonating } = useAuth();
+  const [isStopping, setIsStopping] = useState(false);
+
+  if (!user || !isImpersonating) {
+    return null;
+  }
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    const restored = await stopImpersonating();
+    if (restored) {
+      router.push('/admin');
+    } else {
+      toast.success('Signed out, please sign in again as yourself');
+      router.push('/login');
+    }
+  };
+
+  return (
+    <Alert className="mb-8 border-blue-500/50">
+      <UserCog className="h-4 w-4" />
+      <AlertTitle>Signed in as {user.email}</AlertTitle>
+      <AlertDescription className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <span>You are viewing this account as an admin. Everything you do is recorded.</span>
+        <Button size="sm" variant="outline" onClick={handleStop} disabled={isStopping}>
+          {isStopping ? 'Returning...' : 'Stop impersonating'}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
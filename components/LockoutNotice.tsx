@@ -0,0 +1,49 @@
+/**
+ * Notice shown on the login page while sign-in attempts are rate limited
+ * Counts down to the time the server allows the next attempt
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ShieldAlert } from 'lucide-react';
+
+interface LockoutNoticeProps {
+  message: string;
+  until: number;
+  onExpire: () => void;
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+}
+
+export function LockoutNotice({ message, until, onExpire }: LockoutNoticeProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = Math.max(0, Math.ceil((until - now) / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (remaining === 0) {
+      onExpire();
+    }
+  }, [remaining, onExpire]);
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>Sign-in temporarily blocked</AlertTitle>
+      <AlertDescription>
+        {message} You can try again in {formatWait(remaining)}.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Two-factor step of a sign-in
+ * Shown after a password, sign-in link or single sign-on was accepted for an
+ * account with two-factor enabled; finishes the login with an authenticator or
+ * recovery code
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useAuth, AuthRequestError } from '@/contexts/AuthContext';
+import { LockoutNotice } from '@/components/LockoutNotice';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { KeyRound } from 'lucide-react';
+
+interface MfaChallengeProps {
+  mfaToken: string;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export function MfaChallenge({ mfaToken, onSuccess, onCancel }: MfaChallengeProps) {
+  const { completeMfaLogin } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Set while the server is rate limiting verification attempts
+  const [lockout, setLockout] = useState<{ message: string; until: number } | null>(null);
+  const clearLockout = useCallback(() => setLockout(null), []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code) {
+      toast.error('Please enter your code');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await completeMfaLogin(mfaToken, code);
+      toast.success('Logged in successfully');
+      onSuccess();
+    } catch (error: any) {
+      if (error instanceof AuthRequestError && error.retryAfter) {
+        setLockout({
+          message: error.message,
+          until: Date.now() + error.retryAfter * 1000,
+        });
+      } else {
+        toast.error(error.message || 'Verification failed');
+      }
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md border border-border">
+      <CardHeader className="space-y-2">
+        <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {lockout && (
+          <LockoutNotice message={lockout.message} until={lockout.until} onExpire={clearLockout} />
+        )}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <div className="space-y-2">
+              <Label htmlFor="recoveryCode">Recovery Code</Label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="recoveryCode"
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="pl-10"
+                  autoComplete="off"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                autoFocus
+                disabled={isLoading}
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full bg-primary hover:bg-primary/90"
+            disabled={isLoading || !!lockout}
+          >
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </Button>
+        </form>
+
+        <div className="mt-4 flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+            }}
+            className="text-primary hover:underline font-medium"
+          >
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-muted-foreground hover:underline"
+          >
+            Back to sign in
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * Colored badge showing a task's priority
+ * Renders nothing for tasks without a priority
+ */
+
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { TASK_PRIORITY_LABELS, TaskPriority } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+const PRIORITY_COLORS: Record<Exclude<TaskPriority, 'NONE'>, string> = {
+  LOW: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300',
+  MEDIUM: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  HIGH: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+  URGENT: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+interface PriorityBadgeProps {
+  priority: TaskPriority;
+  className?: string;
+}
+
+export function PriorityBadge({ priority, className }: PriorityBadgeProps) {
+  if (priority === 'NONE') {
+    return null;
+  }
+
+  return (
+    <Badge variant="outline" className={cn('border-transparent', PRIORITY_COLORS[priority], className)}>
+      {TASK_PRIORITY_LABELS[priority]}
+    </Badge>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Profile settings
+ * Edit name and email; a new email must be verified again
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+
+export function ProfileSettings() {
+  const { user, updateUser } = useAuth();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setName(user?.name || '');
+    setEmail(user?.email || '');
+  }, [user?.name, user?.email]);
+
+  const hasChanges = name !== (user?.name || '') || email !== user?.email;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) {
+      toast.error('Email is required');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await apiClient.patch('/api/me', { name, email });
+      const { id, email: nextEmail, name: nextName, emailVerified } = response.data.user;
+      updateUser({ id, email: nextEmail, name: nextName ?? undefined, emailVerified });
+      toast.success(response.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update profile');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>Your name and the email address you sign in with</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input
+              id="profile-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-email" className="flex items-center gap-2">
+              Email
+              {user?.emailVerified === false && <Badge variant="outline">Unverified</Badge>}
+            </Label>
+            <Input
+              id="profile-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <Button type="submit" disabled={isLoading || !hasChanges}>
+            {isLoading ? 'Saving...' : 'Save changes'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * Project creation and editing dialog
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { ColorSwatchPicker } from '@/components/ColorSwatchPicker';
+import { PROJECT_ICON_COMPONENTS } from '@/components/ProjectIcon';
+import {
+  LABEL_COLORS,
+  PROJECT_ICONS,
+  PROJECT_NAME_MAX_LENGTH,
+  ProjectIconName,
+  ProjectSummary,
+} from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+export interface ProjectFormData {
+  name: string;
+  color: string;
+  icon: ProjectIconName;
+}
+
+interface ProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project?: ProjectSummary;
+  onSave: (data: ProjectFormData) => void;
+  isLoading?: boolean;
+}
+
+export function ProjectDialog({
+  open,
+  onOpenChange,
+  project,
+  onSave,
+  isLoading,
+}: ProjectDialogProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LABEL_COLORS[0]);
+  const [icon, setIcon] = useState<ProjectIconName>('folder');
+
+  useEffect(() => {
+    setName(project?.name ?? '');
+    setColor(project?.color ?? LABEL_COLORS[0]);
+    setIcon(project?.icon ?? 'folder');
+  }, [project, open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+    onSave({ name: name.trim(), color, icon });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{project ? 'Edit Project' : 'New Project'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name *</Label>
+            <div className="flex gap-2">
+              <ColorSwatchPicker color={color} onChange={setColor} disabled={isLoading} />
+              <Input
+                id="project-name"
+                placeholder="e.g. Home renovation"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={PROJECT_NAME_MAX_LENGTH}
+                disabled={isLoading}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {PROJECT_ICONS.map((iconName) => {
+                const Icon = PROJECT_ICON_COMPONENTS[iconName];
+                return (
+                  <Button
+                    key={iconName}
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    aria-label={iconName}
+                    aria-pressed={icon === iconName}
+                    onClick={() => setIcon(iconName)}
+                    className={cn(icon === iconName && 'ring-2 ring-primary')}
+                    disabled={isLoading}
+                  >
+                    <Icon className="h-4 w-4" style={{ color }} />
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : project ? 'Update Project' : 'Create Project'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
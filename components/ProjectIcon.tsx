@@ -0,0 +1,46 @@
+/**
+ * Icon of a project, drawn in the project's color
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  BookOpen,
+  Briefcase,
+  Code,
+  Folder,
+  GraduationCap,
+  Heart,
+  Home,
+  LucideIcon,
+  Rocket,
+  ShoppingCart,
+  Star,
+} from 'lucide-react';
+import { ProjectIconName } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+export const PROJECT_ICON_COMPONENTS: Record<ProjectIconName, LucideIcon> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  home: Home,
+  book: BookOpen,
+  code: Code,
+  heart: Heart,
+  star: Star,
+  rocket: Rocket,
+  'shopping-cart': ShoppingCart,
+  'graduation-cap': GraduationCap,
+};
+
+interface ProjectIconProps {
+  icon: ProjectIconName;
+  color: string;
+  className?: string;
+}
+
+export function ProjectIcon({ icon, color, className }: ProjectIconProps) {
+  const Icon = PROJECT_ICON_COMPONENTS[icon] ?? Folder;
+  return <Icon className={cn('h-4 w-4', className)} style={{ color }} />;
+}
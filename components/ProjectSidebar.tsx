@@ -0,0 +1,181 @@
+/**
+ * Dashboard sidebar listing the Inbox and the user's projects
+ * Each entry shows how many pending tasks it holds
+ */
+
+'use client';
+
+import React from 'react';
+import { ProjectIcon } from '@/components/ProjectIcon';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ProjectSummary } from '@/lib/tasks';
+import {
+  Archive,
+  ArchiveRestore,
+  Inbox,
+  ListTodo,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+
+export interface SidebarProject extends ProjectSummary {
+  archivedAt: string | null;
+  pendingCount: number;
+}
+
+// 'ALL', 'inbox' or a project id
+export type ProjectView = string;
+
+interface ProjectSidebarProps {
+  projects: SidebarProject[];
+  inboxPendingCount: number;
+  selected: ProjectView;
+  onSelect: (view: ProjectView) => void;
+  onCreate: () => void;
+  onEdit: (project: SidebarProject) => void;
+  onToggleArchive: (project: SidebarProject) => void;
+  onDelete: (project: SidebarProject) => void;
+  showArchived: boolean;
+  onShowArchivedChange: (show: boolean) => void;
+}
+
+export function ProjectSidebar({
+  projects,
+  inboxPendingCount,
+  selected,
+  onSelect,
+  onCreate,
+  onEdit,
+  onToggleArchive,
+  onDelete,
+  showArchived,
+  onShowArchivedChange,
+}: ProjectSidebarProps) {
+  const totalPending =
+    inboxPendingCount + projects.reduce((sum, project) => sum + project.pendingCount, 0);
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="px-4 py-4">
+        <span className="text-lg font-bold">Task Manager</span>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton isActive={selected === 'ALL'} onClick={() => onSelect('ALL')}>
+                  <ListTodo />
+                  <span>All Tasks</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{totalPending || null}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton isActive={selected === 'inbox'} onClick={() => onSelect('inbox')}>
+                  <Inbox />
+                  <span>Inbox</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{inboxPendingCount || null}</SidebarMenuBadge>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <SidebarGroupAction title="New project" onClick={onCreate}>
+            <Plus />
+            <span className="sr-only">New project</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {projects.length === 0 && (
+                <p className="px-2 py-1 text-xs text-muted-foreground">No projects yet.</p>
+              )}
+              {projects.map((project) => (
+                <SidebarMenuItem key={project.id}>
+                  <SidebarMenuButton
+                    isActive={selected === project.id}
+                    onClick={() => onSelect(project.id)}
+                    className={project.archivedAt ? 'opacity-60' : undefined}
+                  >
+                    <ProjectIcon icon={project.icon} color={project.color} />
+                    <span>{project.name}</span>
+                  </SidebarMenuButton>
+                  <SidebarMenuBadge className="group-hover/menu-item:opacity-0">
+                    {project.pendingCount || null}
+                  </SidebarMenuBadge>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover>
+                        <MoreHorizontal />
+                        <span className="sr-only">Project actions</span>
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent side="right" align="start">
+                      <DropdownMenuItem onClick={() => onEdit(project)}>
+                        <Pencil className="h-4 w-4" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onToggleArchive(project)}>
+                        {project.archivedAt ? (
+                          <ArchiveRestore className="h-4 w-4" />
+                        ) : (
+                          <Archive className="h-4 w-4" />
+                        )}
+                        {project.archivedAt ? 'Unarchive' : 'Archive'}
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onClick={() => onDelete(project)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter className="px-4 py-3">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="show-archived" className="text-xs text-muted-foreground">
+            Show archived projects
+          </Label>
+          <Switch id="show-archived" checked={showArchived} onCheckedChange={onShowArchivedChange} />
+        </div>
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * Badge showing a task's workflow status in the status's color
+ */
+
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { WorkflowStatusSummary } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+interface StatusBadgeProps {
+  status: WorkflowStatusSummary;
+  className?: string;
+}
+
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  return (
+    <Badge variant="secondary" className={cn('gap-1.5 font-medium', className)}>
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+      {status.name}
+    </Badge>
+  );
+}
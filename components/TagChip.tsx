@@ -0,0 +1,24 @@
+/**
+ * Small label showing a tag's name and color
+ */
+
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { TagSummary } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+interface TagChipProps {
+  tag: TagSummary;
+  className?: string;
+}
+
+export function TagChip({ tag, className }: TagChipProps) {
+  return (
+    <Badge variant="outline" className={cn('gap-1.5 font-medium', className)}>
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+    </Badge>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Tag multi-select for the task dialog
+ * Searchable list of the user's tags; typing a new name offers to create it
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { TagChip } from '@/components/TagChip';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { LABEL_COLORS, TAG_NAME_MAX_LENGTH, TagSummary } from '@/lib/tasks';
+import { toast } from 'sonner';
+import { Check, Plus, Tags } from 'lucide-react';
+
+interface TagPickerProps {
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  disabled?: boolean;
+}
+
+export function TagPicker({ selectedIds, onChange, disabled }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    apiClient
+      .get('/api/tags')
+      .then((response) => setTags(response.data.tags))
+      .catch((error) => console.error('[v0] Fetch tags error:', error));
+  }, []);
+
+  const selectedTags = tags.filter((tag) => selectedIds.includes(tag.id));
+  const trimmedQuery = query.trim();
+  const canCreate =
+    trimmedQuery.length > 0 &&
+    !tags.some((tag) => tag.name.toLowerCase() === trimmedQuery.toLowerCase());
+
+  const toggleTag = (tagId: string) => {
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter((id) => id !== tagId)
+        : [...selectedIds, tagId]
+    );
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      const response = await apiClient.post('/api/tags', {
+        name: trimmedQuery,
+        color: LABEL_COLORS[tags.length % LABEL_COLORS.length],
+      });
+      const tag: TagSummary = response.data.tag;
+      setTags((prev) => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      onChange([...selectedIds, tag.id]);
+      setQuery('');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create tag');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id="tags"
+          type="button"
+          variant="outline"
+          className="h-auto min-h-9 w-full justify-start gap-2 font-normal"
+          disabled={disabled}
+        >
+          <Tags className="h-4 w-4 shrink-0" />
+          {selectedTags.length === 0 ? (
+            <span className="text-muted-foreground">No tags</span>
+          ) : (
+            <span className="flex flex-wrap gap-1">
+              {selectedTags.map((tag) => (
+                <TagChip key={tag.id} tag={tag} />
+              ))}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        <Command>
+          <CommandInput
+            placeholder="Search or create tags..."
+            value={query}
+            onValueChange={setQuery}
+            maxLength={TAG_NAME_MAX_LENGTH}
+          />
+          <CommandList>
+            {!canCreate && (
+              <CommandEmpty>
+                {tags.length === 0 ? 'Type a name to create a tag.' : 'No matching tags.'}
+              </CommandEmpty>
+            )}
+            {tags.length > 0 && (
+              <CommandGroup>
+                {tags.map((tag) => (
+                  <CommandItem key={tag.id} value={tag.name} onSelect={() => toggleTag(tag.id)}>
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                    <span className="flex-1">{tag.name}</span>
+                    {selectedIds.includes(tag.id) && <Check className="h-4 w-4" />}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {canCreate && (
+              <CommandGroup forceMount>
+                <CommandItem
+                  value={`create-${trimmedQuery}`}
+                  onSelect={handleCreate}
+                  disabled={isCreating}
+                  forceMount
+                >
+                  <Plus className="h-4 w-4" />
+                  Create &quot;{trimmedQuery}&quot;
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Tag settings
+ * Create, rename, recolor and delete the tags used to label tasks
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ColorSwatchPicker } from '@/components/ColorSwatchPicker';
+import { LABEL_COLORS, TAG_NAME_MAX_LENGTH, TagSummary } from '@/lib/tasks';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface Tag extends TagSummary {
+  taskCount: number;
+}
+
+export function TagSettings() {
+  const [tags, setTags] = useState<Tag[] | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LABEL_COLORS[0]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchTags = async () => {
+    try {
+      const response = await apiClient.get('/api/tags');
+      setTags(response.data.tags);
+    } catch (error: any) {
+      toast.error('Failed to load tags');
+      console.error('[v0] Fetch tags error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Please give the tag a name');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await apiClient.post('/api/tags', { name: name.trim(), color });
+      setName('');
+      setColor(LABEL_COLORS[((tags?.length ?? 0) + 1) % LABEL_COLORS.length]);
+      await fetchTags();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create tag');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Returns false when the change was rejected
+  const handleUpdate = async (tag: Tag, changes: { name?: string; color?: string }) => {
+    if (changes.name !== undefined && changes.name.trim() === tag.name) return true;
+
+    try {
+      const response = await apiClient.patch(`/api/tags/${tag.id}`, changes);
+      setTags(
+        (prev) =>
+          prev?.map((t) => (t.id === tag.id ? { ...t, ...response.data.tag } : t)) ?? null
+      );
+      return true;
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update tag');
+      return false;
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    const usage = tag.taskCount === 1 ? '1 task' : `${tag.taskCount} tasks`;
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from ${usage}.`)) return;
+
+    try {
+      await apiClient.delete(`/api/tags/${tag.id}`);
+      toast.success('Tag deleted');
+      setTags((prev) => prev?.filter((t) => t.id !== tag.id) ?? null);
+    } catch (error: any) {
+      toast.error('Failed to delete tag');
+    }
+  };
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle>Tags</CardTitle>
+        <CardDescription>Labels you can add to tasks and filter by</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="flex items-end gap-2">
+          <ColorSwatchPicker color={color} onChange={setColor} disabled={isLoading} />
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="tag-name">Name</Label>
+            <Input
+              id="tag-name"
+              placeholder="e.g. Work"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={TAG_NAME_MAX_LENGTH}
+              disabled={isLoading}
+            />
+          </div>
+          <Button type="submit" disabled={isLoading} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {isLoading ? 'Adding...' : 'Add tag'}
+          </Button>
+        </form>
+
+        {!tags ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {tags.map((tag) => (
+              <li key={tag.id} className="flex items-center gap-2 py-3">
+                <ColorSwatchPicker
+                  color={tag.color}
+                  onChange={(newColor) => handleUpdate(tag, { color: newColor })}
+                />
+                <Input
+                  defaultValue={tag.name}
+                  aria-label="Tag name"
+                  maxLength={TAG_NAME_MAX_LENGTH}
+                  onBlur={async (e) => {
+                    const input = e.currentTarget;
+                    if (!(await handleUpdate(tag, { name: input.value }))) {
+                      input.value = tag.name;
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="flex-1"
+                />
+                <span className="w-20 text-right text-xs text-muted-foreground">
+                  {tag.taskCount === 1 ? '1 task' : `${tag.taskCount} tasks`}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDelete(tag)}
+                  className="text-destructive hover:text-destructive"
+                  aria-label={`Delete ${tag.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * Kanban board with one column per workflow status
+ * Cards can be dragged between and within columns, or moved with the
+ * keyboard: focus a card, then Alt+Arrow keys move it
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { TaskCard } from '@/components/TaskCard';
+import { canMoveToStatus, WorkflowStatusDefinition } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+type BoardTask = React.ComponentProps<typeof TaskCard>['task'] & {
+  statusId: string | null;
+};
+
+// Where a card should go: a column and the index it takes there
+export interface BoardMove {
+  taskId: string;
+  statusId: string;
+  index: number;
+}
+
+interface TaskBoardProps<T extends BoardTask> {
+  statuses: WorkflowStatusDefinition[];
+  tasks: T[];
+  onMove: (move: BoardMove) => void;
+  onToggleStatus: React.ComponentProps<typeof TaskCard>['onToggleStatus'];
+  onEdit: (task: T) => void;
+  onDelete: (taskId: string) => void;
+  showProject?: boolean;
+}
+
+export function TaskBoard<T extends BoardTask>({
+  statuses,
+  tasks,
+  onMove,
+  onToggleStatus,
+  onEdit,
+  onDelete,
+  showProject,
+}: TaskBoardProps<T>) {
+  const [dragTaskId, setDragTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ statusId: string; index: number } | null>(null);
+
+  const columns = statuses.map((status) => ({
+    status,
+    tasks: tasks.filter((task) => task.statusId === status.id),
+  }));
+
+  const dragTask = tasks.find((task) => task.id === dragTaskId);
+  const dragFrom = statuses.find((status) => status.id === dragTask?.statusId);
+  const canDropOn = (statusId: string) => !dragFrom || canMoveToStatus(dragFrom, statusId);
+
+  // Index among the column's other cards that the pointer is over
+  const dropIndexAt = (columnEl: HTMLElement, clientY: number) => {
+    const cards = Array.from(columnEl.querySelectorAll<HTMLElement>('[data-board-card]')).filter(
+      (card) => card.dataset.boardCard !== dragTaskId
+    );
+    const index = cards.findIndex((card) => {
+      const rect = card.getBoundingClientRect();
+      return clientY < rect.top + rect.height / 2;
+    });
+    return index === -1 ? cards.length : index;
+  };
+
+  const endDrag = () => {
+    setDragTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, task: T, columnIndex: number, index: number) => {
+    // Only the card itself, not the buttons inside it
+    if (!e.altKey || e.target !== e.currentTarget) return;
+
+    const column = columns[columnIndex];
+    let move: BoardMove | null = null;
+
+    if (e.key === 'ArrowUp' && index > 0) {
+      move = { taskId: task.id, statusId: column.status.id, index: index - 1 };
+    } else if (e.key === 'ArrowDown' && index < column.tasks.length - 1) {
+      move = { taskId: task.id, statusId: column.status.id, index: index + 1 };
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      // Nearest column in that direction the task is allowed to move to
+      const step = e.key === 'ArrowLeft' ? -1 : 1;
+      for (let i = columnIndex + step; i >= 0 && i < columns.length; i += step) {
+        if (canMoveToStatus(column.status, columns[i].status.id)) {
+          move = {
+            taskId: task.id,
+            statusId: columns[i].status.id,
+            index: Math.min(index, columns[i].tasks.length),
+          };
+          break;
+        }
+      }
+    }
+
+    if (move) {
+      e.preventDefault();
+      onMove(move);
+      // Keep focus on the card after it re-renders in its new place
+      requestAnimationFrame(() =>
+        document.querySelector<HTMLElement>(`[data-board-card="${task.id}"]`)?.focus()
+      );
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      <p id="board-instructions" className="sr-only">
+        Press Alt and the arrow keys to move the focused task between columns or up and down.
+      </p>
+      {columns.map(({ status, tasks: columnTasks }, columnIndex) => {
+        const isDropTarget = dropTarget?.statusId === status.id;
+        // Drop indexes count the column's cards other than the one being dragged
+        const otherIds = columnTasks.map((t) => t.id).filter((id) => id !== dragTaskId);
+        const showIndicatorAt = (index: number) => isDropTarget && dropTarget.index === index;
+        const isBlocked = dragTaskId !== null && !canDropOn(status.id);
+
+        return (
+          <section
+            key={status.id}
+            aria-label={status.name}
+            className={cn(
+              'flex w-80 shrink-0 flex-col rounded-lg border border-border bg-muted/40 transition-opacity',
+              isDropTarget && 'ring-2 ring-primary',
+              isBlocked && 'opacity-50'
+            )}
+            onDragOver={(e) => {
+              if (!dragTaskId || !canDropOn(status.id)) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              const index = dropIndexAt(e.currentTarget, e.clientY);
+              if (dropTarget?.statusId !== status.id || dropTarget.index !== index) {
+                setDropTarget({ statusId: status.id, index });
+              }
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragTaskId && canDropOn(status.id)) {
+                onMove({
+                  taskId: dragTaskId,
+                  statusId: status.id,
+                  index: dropIndexAt(e.currentTarget, e.clientY),
+                });
+              }
+              endDrag();
+            }}
+          >
+            <header className="flex items-center gap-2 px-3 py-2">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+              <h2 className="text-sm font-semibold">{status.name}</h2>
+              <span className="text-xs text-muted-foreground">{columnTasks.length}</span>
+            </header>
+
+            <div className="flex min-h-24 flex-1 flex-col gap-2 p-2">
+              {columnTasks.map((task, index) => (
+                <React.Fragment key={task.id}>
+                  {task.id !== dragTaskId && showIndicatorAt(otherIds.indexOf(task.id)) && (
+                    <DropIndicator />
+                  )}
+                  <div
+                    data-board-card={task.id}
+                    draggable
+                    tabIndex={0}
+                    aria-describedby="board-instructions"
+                    aria-label={`${task.title}, ${status.name}`}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', task.id);
+                      setDragTaskId(task.id);
+                    }}
+                    onDragEnd={endDrag}
+                    onKeyDown={(e) => handleKeyDown(e, task, columnIndex, index)}
+                    className={cn(
+                      'cursor-grab rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                      dragTaskId === task.id && 'opacity-40'
+                    )}
+                  >
+                    <TaskCard
+                      task={task}
+                      onToggleStatus={onToggleStatus}
+                      onEdit={() => onEdit(task)}
+                      onDelete={onDelete}
+                      showProject={showProject}
+                    />
+                  </div>
+                </React.Fragment>
+              ))}
+              {showIndicatorAt(otherIds.length) && <DropIndicator />}
+              {columnTasks.length === 0 && !isDropTarget && (
+                <p className="py-6 text-center text-xs text-muted-foreground">No tasks</p>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+function DropIndicator() {
+  return <div className="h-1 rounded-full bg-primary" />;
+}
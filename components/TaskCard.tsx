@@ -8,23 +8,92 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Trash2, Edit2 } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { Progress } from '@/components/ui/progress';
+import { PriorityBadge } from '@/components/PriorityBadge';
+import { StatusBadge } from '@/components/StatusBadge';
+import { ProjectIcon } from '@/components/ProjectIcon';
+import { TagChip } from '@/components/TagChip';
+import {
+  ChecklistProgress,
+  ProjectSummary,
+  TagSummary,
+  TaskPriority,
+  TaskStatus,
+  WorkflowStatusSummary,
+} from '@/lib/tasks';
+import { Trash2, Edit2, CalendarClock, ListChecks } from 'lucide-react';
+import {
+  differenceInCalendarDays,
+  format,
+  formatDistanceToNow,
+  isPast,
+  isToday,
+  isTomorrow,
+} from 'date-fns';
 
 interface Task {
   id: string;
   title: string;
   description?: string;
-  status: 'PENDING' | 'COMPLETED';
+  status: TaskStatus;
+  workflowStatus: WorkflowStatusSummary | null;
+  priority: TaskPriority;
+  dueAt: string | null;
+  dueHasTime: boolean;
+  tags: TagSummary[];
+  projectId: string | null;
+  project: ProjectSummary | null;
+  progress: ChecklistProgress;
   createdAt: string;
 }
 
 interface TaskCardProps {
   task: Task;
-  onToggleStatus: (taskId: string, newStatus: 'PENDING' | 'COMPLETED') => void;
+  onToggleStatus: (taskId: string, newStatus: TaskStatus) => void;
   onEdit: (task: Task) => void;
   onDelete: (taskId: string) => void;
   isLoading?: boolean;
+  // Hidden when the list is already scoped to one project
+  showProject?: boolean;
+}
+
+const DUE_TONE_CLASSES = {
+  overdue: 'text-destructive font-medium',
+  today: 'text-amber-600 dark:text-amber-400 font-medium',
+  upcoming: 'text-muted-foreground',
+};
+
+/**
+ * Relative due text and how urgently to style it
+ * Tasks without a time are due at the end of the day, so they only become
+ * overdue once that day is over
+ */
+function describeDue(task: Task): { text: string; tone: keyof typeof DUE_TONE_CLASSES } | null {
+  if (!task.dueAt) return null;
+
+  const due = new Date(task.dueAt);
+  const time = task.dueHasTime ? ` at ${format(due, 'p')}` : '';
+
+  if (task.status === 'COMPLETED') {
+    return { text: `Due ${format(due, 'MMM d')}${time}`, tone: 'upcoming' };
+  }
+  if (isPast(due)) {
+    const daysLate = differenceInCalendarDays(new Date(), due);
+    const lateBy = task.dueHasTime
+      ? formatDistanceToNow(due)
+      : `${daysLate} day${daysLate === 1 ? '' : 's'}`;
+    return { text: `Overdue by ${lateBy}`, tone: 'overdue' };
+  }
+  if (isToday(due)) {
+    return { text: `Due today${time}`, tone: 'today' };
+  }
+  if (isTomorrow(due)) {
+    return { text: `Due tomorrow${time}`, tone: 'upcoming' };
+  }
+  return {
+    text: `Due in ${differenceInCalendarDays(due, new Date())} days (${format(due, 'MMM d')}${time})`,
+    tone: 'upcoming',
+  };
 }
 
 export function TaskCard({
@@ -33,11 +102,17 @@ export function TaskCard({
   onEdit,
   onDelete,
   isLoading,
+  showProject = true,
 }: TaskCardProps) {
   const isCompleted = task.status === 'COMPLETED';
+  const due = describeDue(task);
 
   return (
-    <Card className="hover:shadow-md transition-shadow border border-border">
+    <Card
+      className={`hover:shadow-md transition-shadow border ${
+        due?.tone === 'overdue' ? 'border-destructive/50' : 'border-border'
+      }`}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-3">
           <div className="flex items-start gap-3 flex-1">
@@ -72,8 +147,53 @@ export function TaskCard({
       </CardHeader>
 
       <CardContent className="space-y-3">
-        <div className="text-xs text-muted-foreground">
-          {formatDistanceToNow(new Date(task.createdAt), { addSuffix: true })}
+        {showProject && task.project && (
+          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <ProjectIcon icon={task.project.icon} color={task.project.color} className="h-3.5 w-3.5" />
+            {task.project.name}
+          </div>
+        )}
+
+        {task.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {task.tags.map((tag) => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
+          </div>
+        )}
+
+        {task.progress.total > 0 && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <ListChecks className="h-3.5 w-3.5 shrink-0" />
+            <Progress
+              value={(task.progress.completed / task.progress.total) * 100}
+              className="h-1.5"
+              aria-label="Checklist progress"
+            />
+            <span className="shrink-0">
+              {task.progress.completed}/{task.progress.total}
+            </span>
+          </div>
+        )}
+
+        {due && (
+          <div
+            className={`flex items-center gap-1.5 text-xs ${DUE_TONE_CLASSES[due.tone]}`}
+            title={format(new Date(task.dueAt!), task.dueHasTime ? 'PPPp' : 'PPP')}
+          >
+            <CalendarClock className="h-3.5 w-3.5" />
+            {due.text}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(task.createdAt), { addSuffix: true })}
+          </span>
+          <div className="flex items-center gap-1">
+            {task.workflowStatus && <StatusBadge status={task.workflowStatus} />}
+            <PriorityBadge priority={task.priority} />
+          </div>
         </div>
 
         <div className="flex gap-2">
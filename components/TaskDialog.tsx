@@ -16,21 +16,87 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DueDatePicker } from '@/components/DueDatePicker';
+import { TagPicker } from '@/components/TagPicker';
+import { ChecklistEditor } from '@/components/ChecklistEditor';
+import { ProjectIcon } from '@/components/ProjectIcon';
+import {
+  ChecklistItemSummary,
+  ProjectSummary,
+  TASK_PRIORITIES,
+  TASK_PRIORITY_LABELS,
+  TagSummary,
+  TaskPriority,
+  TaskStatus,
+  WorkflowStatusDefinition,
+  canMoveToStatus,
+} from '@/lib/tasks';
+import { endOfDay, format, set } from 'date-fns';
+import { Inbox } from 'lucide-react';
 
 interface Task {
   id: string;
   title: string;
   description?: string;
-  status: 'PENDING' | 'COMPLETED';
+  status: TaskStatus;
+  statusId: string | null;
+  priority: TaskPriority;
+  dueAt: string | null;
+  dueHasTime: boolean;
+  tags: TagSummary[];
+  projectId: string | null;
+  checklist: ChecklistItemSummary[];
   createdAt: string;
 }
 
+export interface TaskFormData {
+  title: string;
+  description: string;
+  statusId?: string;
+  priority: TaskPriority;
+  dueAt: string | null;
+  dueHasTime: boolean;
+  tags: string[];
+  projectId: string | null;
+  // Item titles, only sent when creating a task
+  checklist?: string[];
+}
+
 interface TaskDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   task?: Task;
-  onSave: (data: { title: string; description: string }) => void;
+  onSave: (data: TaskFormData) => void;
   isLoading?: boolean;
+  projects: ProjectSummary[];
+  // The user's workflow, in order
+  statuses: WorkflowStatusDefinition[];
+  // Project preselected for new tasks; null for the Inbox
+  defaultProjectId?: string | null;
+  // Called when the checklist of an existing task was changed and saved
+  onChecklistChange?: () => void;
+}
+
+// Select items cannot have an empty value, so the Inbox gets its own
+const INBOX_VALUE = 'inbox';
+
+/**
+ * Combine the picked day and optional HH:mm time into the dueAt instant
+ * Without a time the task is due at the end of the day in the user's timezone
+ */
+function toDueAt(date: Date | undefined, time: string): string | null {
+  if (!date) return null;
+  if (!time) return endOfDay(date).toISOString();
+
+  const [hours, minutes] = time.split(':').map(Number);
+  return set(date, { hours, minutes, seconds: 0, milliseconds: 0 }).toISOString();
 }
 
 export function TaskDialog({
@@ -39,33 +105,82 @@ export function TaskDialog({
   task,
   onSave,
   isLoading,
+  projects,
+  statuses,
+  defaultProjectId = null,
+  onChecklistChange,
 }: TaskDialogProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [statusId, setStatusId] = useState<string | undefined>();
+  const [priority, setPriority] = useState<TaskPriority>('NONE');
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+  const [dueTime, setDueTime] = useState('');
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [checklist, setChecklist] = useState<ChecklistItemSummary[]>([]);
 
   useEffect(() => {
     if (task) {
       setTitle(task.title);
       setDescription(task.description || '');
+      setStatusId(task.statusId ?? undefined);
+      setPriority(task.priority);
+      setDueDate(task.dueAt ? new Date(task.dueAt) : undefined);
+      setDueTime(task.dueAt && task.dueHasTime ? format(new Date(task.dueAt), 'HH:mm') : '');
+      setTagIds(task.tags.map((tag) => tag.id));
+      setProjectId(task.projectId);
+      setChecklist(task.checklist);
     } else {
       setTitle('');
       setDescription('');
+      setStatusId(undefined);
+      setPriority('NONE');
+      setDueDate(undefined);
+      setDueTime('');
+      setTagIds([]);
+      setProjectId(defaultProjectId);
+      setChecklist([]);
     }
-  }, [task, open]);
+  }, [task, open, defaultProjectId]);
+
+  // An existing task can only move along the allowed transitions
+  const currentStatus = statuses.find((status) => status.id === task?.statusId);
+  const statusOptions = currentStatus
+    ? statuses.filter((status) => canMoveToStatus(currentStatus, status.id))
+    : statuses;
+  const defaultStatusId = statuses.find((status) => !status.countsAsDone)?.id;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim()) {
       return;
     }
-    onSave({ title: title.trim(), description: description.trim() });
+    onSave({
+      title: title.trim(),
+      description: description.trim(),
+      statusId,
+      priority,
+      dueAt: toDueAt(dueDate, dueTime),
+      dueHasTime: !!dueDate && !!dueTime,
+      tags: tagIds,
+      projectId,
+      ...(task ? {} : { checklist: checklist.map((item) => item.title) }),
+    });
     setTitle('');
     setDescription('');
+    setStatusId(undefined);
+    setPriority('NONE');
+    setDueDate(undefined);
+    setDueTime('');
+    setTagIds([]);
+    setProjectId(defaultProjectId);
+    setChecklist([]);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{task ? 'Edit Task' : 'Create New Task'}</DialogTitle>
         </DialogHeader>
@@ -95,6 +210,101 @@ export function TaskDialog({
             />
           </div>
 
+          {statuses.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select
+                value={statusId ?? defaultStatusId}
+                onValueChange={setStatusId}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="status" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statusOptions.map((status) => (
+                    <SelectItem key={status.id} value={status.id}>
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+                      {status.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="project">Project</Label>
+            <Select
+              value={projectId ?? INBOX_VALUE}
+              onValueChange={(value) => setProjectId(value === INBOX_VALUE ? null : value)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="project" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INBOX_VALUE}>
+                  <Inbox className="h-4 w-4" />
+                  Inbox
+                </SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    <ProjectIcon icon={project.icon} color={project.color} />
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="priority">Priority</Label>
+            <Select
+              value={priority}
+              onValueChange={(value) => setPriority(value as TaskPriority)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="priority" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TASK_PRIORITIES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {TASK_PRIORITY_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dueDate">Due Date</Label>
+            <DueDatePicker
+              date={dueDate}
+              time={dueTime}
+              onDateChange={setDueDate}
+              onTimeChange={setDueTime}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            <TagPicker selectedIds={tagIds} onChange={setTagIds} disabled={isLoading} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="checklist">Checklist</Label>
+            <ChecklistEditor
+              taskId={task?.id}
+              items={checklist}
+              onItemsChange={setChecklist}
+              onSaved={onChecklistChange}
+              disabled={isLoading}
+            />
+          </div>
+
           <DialogFooter>
             <Button
               type="button"
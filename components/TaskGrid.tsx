@@ -0,0 +1,154 @@
+/**
+ * Task list as a grid of cards
+ * With onReorder set, cards can be dragged into a new place or moved with the
+ * keyboard: focus a card, then Alt+Arrow keys move it one place
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { TaskCard } from '@/components/TaskCard';
+import { cn } from '@/lib/utils';
+
+type GridTask = React.ComponentProps<typeof TaskCard>['task'];
+
+// Where a card should go: the index it takes among the other cards
+export interface GridMove {
+  taskId: string;
+  index: number;
+}
+
+interface TaskGridProps<T extends GridTask> {
+  tasks: T[];
+  onToggleStatus: React.ComponentProps<typeof TaskCard>['onToggleStatus'];
+  onEdit: (task: T) => void;
+  onDelete: (taskId: string) => void;
+  onReorder?: (move: GridMove) => void;
+  isLoading?: boolean;
+  showProject?: boolean;
+}
+
+export function TaskGrid<T extends GridTask>({
+  tasks,
+  onToggleStatus,
+  onEdit,
+  onDelete,
+  onReorder,
+  isLoading,
+  showProject,
+}: TaskGridProps<T>) {
+  const [dragTaskId, setDragTaskId] = useState<string | null>(null);
+  // Card the pointer is over and which side of it the dragged card would land on
+  const [dropTarget, setDropTarget] = useState<{ taskId: string; after: boolean } | null>(null);
+
+  const otherIds = tasks.map((task) => task.id).filter((id) => id !== dragTaskId);
+
+  const endDrag = () => {
+    setDragTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, task: T, index: number) => {
+    // Only the card itself, not the buttons inside it
+    if (!onReorder || !e.altKey || e.target !== e.currentTarget) return;
+
+    let newIndex: number | null = null;
+    if ((e.key === 'ArrowUp' || e.key === 'ArrowLeft') && index > 0) {
+      newIndex = index - 1;
+    } else if ((e.key === 'ArrowDown' || e.key === 'ArrowRight') && index < tasks.length - 1) {
+      newIndex = index + 1;
+    }
+
+    if (newIndex !== null) {
+      e.preventDefault();
+      onReorder({ taskId: task.id, index: newIndex });
+      // Keep focus on the card after it re-renders in its new place
+      requestAnimationFrame(() =>
+        document.querySelector<HTMLElement>(`[data-grid-card="${task.id}"]`)?.focus()
+      );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {onReorder && (
+        <p id="grid-instructions" className="sr-only">
+          Press Alt and the arrow keys to move the focused task earlier or later in the list.
+        </p>
+      )}
+      {tasks.map((task, index) => {
+        const card = (
+          <TaskCard
+            task={task}
+            onToggleStatus={onToggleStatus}
+            onEdit={() => onEdit(task)}
+            onDelete={onDelete}
+            isLoading={isLoading}
+            showProject={showProject}
+          />
+        );
+
+        if (!onReorder) {
+          return <React.Fragment key={task.id}>{card}</React.Fragment>;
+        }
+
+        const isDropTarget = dropTarget?.taskId === task.id && task.id !== dragTaskId;
+
+        return (
+          <div
+            key={task.id}
+            data-grid-card={task.id}
+            draggable
+            tabIndex={0}
+            aria-describedby="grid-instructions"
+            aria-label={task.title}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', task.id);
+              setDragTaskId(task.id);
+            }}
+            onDragEnd={endDrag}
+            onDragOver={(e) => {
+              if (!dragTaskId || task.id === dragTaskId) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              const rect = e.currentTarget.getBoundingClientRect();
+              const after = e.clientX > rect.left + rect.width / 2;
+              if (dropTarget?.taskId !== task.id || dropTarget.after !== after) {
+                setDropTarget({ taskId: task.id, after });
+              }
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragTaskId && dropTarget && dropTarget.taskId === task.id) {
+                onReorder({
+                  taskId: dragTaskId,
+                  index: otherIds.indexOf(task.id) + (dropTarget.after ? 1 : 0),
+                });
+              }
+              endDrag();
+            }}
+            onKeyDown={(e) => handleKeyDown(e, task, index)}
+            className={cn(
+              'relative cursor-grab rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+              dragTaskId === task.id && 'opacity-40'
+            )}
+          >
+            {isDropTarget && (
+              <div
+                className={cn(
+                  'absolute inset-y-0 w-1 rounded-full bg-primary',
+                  dropTarget.after ? '-right-2.5' : '-left-2.5'
+                )}
+              />
+            )}
+            {card}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
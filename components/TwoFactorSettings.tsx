@@ -0,0 +1,198 @@
+/**
+ * Two-factor authentication settings
+ * Enrollment (QR code + confirmation code), recovery codes and disabling
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { toast } from 'sonner';
+import { Loader2, ShieldCheck } from 'lucide-react';
+
+interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface MfaSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await apiClient.get('/api/auth/mfa');
+      setStatus(response.data);
+    } catch (error: any) {
+      toast.error('Failed to load two-factor status');
+      console.error('[v0] Fetch MFA status error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const handleStartSetup = async () => {
+    try {
+      setIsLoading(true);
+      const response = await apiClient.post('/api/auth/mfa/setup');
+      setSetup(response.data);
+      setCode('');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start setup');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== 6) return;
+
+    try {
+      setIsLoading(true);
+      const response = await apiClient.post('/api/auth/mfa/enable', { code });
+      setRecoveryCodes(response.data.recoveryCodes);
+      setSetup(null);
+      setCode('');
+      toast.success('Two-factor authentication enabled');
+      await fetchStatus();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Invalid verification code');
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) {
+      toast.error('Please enter your password');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await apiClient.post('/api/auth/mfa/disable', { password });
+      setPassword('');
+      toast.success('Two-factor authentication disabled');
+      await fetchStatus();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to disable two-factor authentication');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Save these recovery codes somewhere safe. Each one can be used once to
+              sign in if you lose access to your authenticator app. They will not be
+              shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 rounded-md border border-border p-4 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <Button onClick={() => setRecoveryCodes(null)}>{"I've saved my codes"}</Button>
+          </div>
+        ) : setup ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img
+              src={setup.qrCode}
+              alt="Two-factor QR code"
+              className="h-48 w-48 rounded-md border border-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              {"Can't scan it? Enter this key manually: "}
+              <span className="font-mono text-foreground break-all">{setup.secret}</span>
+            </p>
+            <InputOTP maxLength={6} value={code} onChange={setCode} disabled={isLoading}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading || code.length !== 6}>
+                {isLoading ? 'Verifying...' : 'Enable'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setSetup(null)} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status.enabled ? (
+          <form onSubmit={handleDisable} className="space-y-4">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-green-500" />
+              {status.recoveryCodesRemaining} recovery codes remaining
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="mfa-disable-password">Confirm your password to disable</Label>
+              <Input
+                id="mfa-disable-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="outline"
+              className="text-destructive hover:text-destructive"
+              disabled={isLoading}
+            >
+              Disable two-factor authentication
+            </Button>
+          </form>
+        ) : (
+          <Button onClick={handleStartSetup} disabled={isLoading}>
+            {isLoading ? 'Starting...' : 'Set up two-factor authentication'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Banner asking unverified users to confirm their email address
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api-client';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { MailWarning } from 'lucide-react';
+
+export function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+
+  if (!user || user.emailVerified !== false) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    try {
+      setIsSending(true);
+      await apiClient.post('/api/auth/resend-verification');
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send verification email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Alert className="mb-8 border-yellow-500/50">
+      <MailWarning className="h-4 w-4" />
+      <AlertTitle>Verify your email address</AlertTitle>
+      <AlertDescription className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <span>
+          Check your inbox for a link to confirm {user.email}. Some actions are
+          unavailable until your address is verified.
+        </span>
+        <Button size="sm" variant="outline" onClick={handleResend} disabled={isSending}>
+          {isSending ? 'Sending...' : 'Resend email'}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
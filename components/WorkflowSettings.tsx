@@ -0,0 +1,283 @@
+/**
+ * Workflow settings
+ * Add, rename, reorder and delete task statuses, mark which ones count as
+ * done and restrict which statuses a task can move to next
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ColorSwatchPicker } from '@/components/ColorSwatchPicker';
+import {
+  LABEL_COLORS,
+  WORKFLOW_STATUS_NAME_MAX_LENGTH,
+  WorkflowStatusDefinition,
+} from '@/lib/tasks';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronUp, GitBranch, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface WorkflowStatus extends WorkflowStatusDefinition {
+  taskCount: number;
+}
+
+type StatusChanges = {
+  name?: string;
+  color?: string;
+  countsAsDone?: boolean;
+  allowedNextIds?: string[];
+};
+
+export function WorkflowSettings() {
+  const [statuses, setStatuses] = useState<WorkflowStatus[] | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LABEL_COLORS[6]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchStatuses = async () => {
+    try {
+      const response = await apiClient.get('/api/statuses');
+      setStatuses(response.data.statuses);
+    } catch (error: any) {
+      toast.error('Failed to load workflow');
+      console.error('[v0] Fetch statuses error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatuses();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Please give the status a name');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await apiClient.post('/api/statuses', { name: name.trim(), color });
+      setName('');
+      await fetchStatuses();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create status');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Returns false when the change was rejected
+  const handleUpdate = async (status: WorkflowStatus, changes: StatusChanges) => {
+    if (changes.name !== undefined && changes.name.trim() === status.name) return true;
+
+    try {
+      const response = await apiClient.patch(`/api/statuses/${status.id}`, changes);
+      setStatuses(
+        (prev) =>
+          prev?.map((s) => (s.id === status.id ? { ...s, ...response.data.status } : s)) ?? null
+      );
+      return true;
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update status');
+      return false;
+    }
+  };
+
+  const handleToggleTransition = (status: WorkflowStatus, targetId: string) => {
+    const allowedNextIds = status.allowedNextIds.includes(targetId)
+      ? status.allowedNextIds.filter((id) => id !== targetId)
+      : [...status.allowedNextIds, targetId];
+    handleUpdate(status, { allowedNextIds });
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!statuses) return;
+
+    const reordered = [...statuses];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    setStatuses(reordered);
+
+    try {
+      await apiClient.put('/api/statuses', { statusIds: reordered.map((status) => status.id) });
+    } catch (error: any) {
+      setStatuses(statuses);
+      toast.error('Failed to reorder statuses');
+    }
+  };
+
+  const handleDelete = async (status: WorkflowStatus) => {
+    const usage =
+      status.taskCount === 0
+        ? ''
+        : ` Its tasks will move to another ${status.countsAsDone ? 'done' : 'open'} status.`;
+    if (!confirm(`Delete the status "${status.name}"?${usage}`)) return;
+
+    try {
+      await apiClient.delete(`/api/statuses/${status.id}`);
+      toast.success('Status deleted');
+      await fetchStatuses();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete status');
+    }
+  };
+
+  return (
+    <Card className="border border-border">
+      <CardHeader>
+        <CardTitle>Workflow</CardTitle>
+        <CardDescription>
+          The statuses your tasks move through, in order. Tasks in a done status count as
+          completed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="flex items-end gap-2">
+          <ColorSwatchPicker color={color} onChange={setColor} disabled={isLoading} />
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="status-name">Name</Label>
+            <Input
+              id="status-name"
+              placeholder="e.g. Review"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={WORKFLOW_STATUS_NAME_MAX_LENGTH}
+              disabled={isLoading}
+            />
+          </div>
+          <Button type="submit" disabled={isLoading} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {isLoading ? 'Adding...' : 'Add status'}
+          </Button>
+        </form>
+
+        {!statuses ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-border">
+            {statuses.map((status, index) => {
+              const others = statuses.filter((s) => s.id !== status.id);
+              return (
+                <li key={status.id} className="flex flex-wrap items-center gap-2 py-3">
+                  <ColorSwatchPicker
+                    color={status.color}
+                    onChange={(newColor) => handleUpdate(status, { color: newColor })}
+                  />
+                  <Input
+                    defaultValue={status.name}
+                    aria-label="Status name"
+                    maxLength={WORKFLOW_STATUS_NAME_MAX_LENGTH}
+                    onBlur={async (e) => {
+                      const input = e.currentTarget;
+                      if (!(await handleUpdate(status, { name: input.value }))) {
+                        input.value = status.name;
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className="min-w-32 flex-1"
+                  />
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`status-done-${status.id}`}
+                      checked={status.countsAsDone}
+                      onCheckedChange={(checked) => handleUpdate(status, { countsAsDone: checked })}
+                    />
+                    <Label htmlFor={`status-done-${status.id}`} className="text-xs">
+                      Done
+                    </Label>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="outline" className="gap-1 text-xs">
+                        <GitBranch className="h-3.5 w-3.5" />
+                        {status.allowedNextIds.length === 0
+                          ? 'Any next'
+                          : `${status.allowedNextIds.length} next`}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Tasks can move to</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {others.map((target) => (
+                        <DropdownMenuCheckboxItem
+                          key={target.id}
+                          checked={
+                            status.allowedNextIds.length === 0 ||
+                            status.allowedNextIds.includes(target.id)
+                          }
+                          onSelect={(e) => e.preventDefault()}
+                          onCheckedChange={() =>
+                            handleToggleTransition(
+                              status.allowedNextIds.length === 0
+                                ? { ...status, allowedNextIds: others.map((s) => s.id) }
+                                : status,
+                              target.id
+                            )
+                          }
+                        >
+                          {target.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <span className="w-16 text-right text-xs text-muted-foreground">
+                    {status.taskCount === 1 ? '1 task' : `${status.taskCount} tasks`}
+                  </span>
+                  <div className="flex">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === statuses.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(status)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={`Delete ${status.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,23 +5,60 @@
 
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { apiClient } from '@/lib/api-client';
 
 interface User {
   id: string;
   email: string;
   name?: string;
+  emailVerified?: boolean;
+  role?: 'USER' | 'ADMIN';
 }
 
+// Admin's own session, stashed while they are signed in as another user
+interface ImpersonatorSession {
+  user: User;
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+// Error thrown by auth requests; retryAfter is set when the server rate limited the attempt
+export class AuthRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'AuthRequestError';
+  }
+}
+
+// Result of a password login: either signed in, or waiting for a two-factor code
+export type LoginResult =
+  | { mfaRequired: false }
+  | { mfaRequired: true; mfaToken: string };
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   accessToken: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeMfaLogin: (mfaToken: string, code: string) => Promise<void>;
+  completeSsoLogin: (code: string) => Promise<LoginResult>;
+  completeMagicLinkLogin: (token: string) => Promise<LoginResult>;
   register: (email: string, password: string, name?: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
   setAccessToken: (token: string | null) => void;
+  updateUser: (changes: Partial<User>) => void;
+  refreshUser: () => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
+  isImpersonating: boolean;
+  impersonate: (userId: string) => Promise<void>;
+  stopImpersonating: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -33,22 +70,51 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isImpersonating, setIsImpersonating] = useState(false);
+  const hasRevalidated = useRef(false);
 
   // Initialize from localStorage
   useEffect(() => {
     const savedToken = localStorage.getItem('accessToken');
     const savedUser = localStorage.getItem('user');
+    // In cookie mode the tokens are httpOnly cookies; only the user is cached
+    const isCookieMode = localStorage.getItem('authMode') === 'cookie';
 
-    if (savedToken && savedUser) {
+    if (savedUser && (savedToken || isCookieMode)) {
       setAccessToken(savedToken);
       setUser(JSON.parse(savedUser));
+      setIsImpersonating(!!localStorage.getItem('impersonatorSession'));
     }
 
     setIsLoading(false);
   }, []);
 
+  // Store tokens and user returned by login, register and two-factor login
+  const storeSession = useCallback(
+    (data: { accessToken?: string; refreshToken?: string; authMode?: 'cookie'; user: User }) => {
+      setUser(data.user);
+      localStorage.setItem('user', JSON.stringify(data.user));
+
+      // Cookie mode: the server set httpOnly cookies, there is nothing to store
+      if (data.authMode === 'cookie') {
+        setAccessToken(null);
+        localStorage.setItem('authMode', 'cookie');
+        localStorage.removeItem('accessToken');
+        localStorage.removeItem('refreshToken');
+        return;
+      }
+
+      // Save to localStorage
+      setAccessToken(data.accessToken ?? null);
+      localStorage.removeItem('authMode');
+      localStorage.setItem('accessToken', data.accessToken ?? '');
+      localStorage.setItem('refreshToken', data.refreshToken ?? '');
+    },
+    []
+  );
+
   const login = useCallback(
-    async (email: string, password: string) => {
+    async (email: string, password: string): Promise<LoginResult> => {
       try {
         setIsLoading(true);
         const response = await fetch('/api/auth/login', {
@@ -59,22 +125,108 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         if (!response.ok) {
           const data = await response.json();
-          throw new Error(data.error || 'Login failed');
+          throw new AuthRequestError(data.error || 'Login failed', response.status, data.retryAfter);
         }
 
         const data = await response.json();
-        setAccessToken(data.accessToken);
-        setUser(data.user);
+        if (data.mfaRequired) {
+          return { mfaRequired: true, mfaToken: data.mfaToken };
+        }
 
-        // Save to localStorage
-        localStorage.setItem('accessToken', data.accessToken);
-        localStorage.setItem('user', JSON.stringify(data.user));
-        localStorage.setItem('refreshToken', data.refreshToken);
+        storeSession(data);
+        return { mfaRequired: false };
       } finally {
         setIsLoading(false);
       }
     },
-    []
+    [storeSession]
+  );
+
+  const completeMfaLogin = useCallback(
+    async (mfaToken: string, code: string) => {
+      try {
+        setIsLoading(true);
+        const response = await fetch('/api/auth/login/mfa', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ mfaToken, code }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new AuthRequestError(
+            data.error || 'Verification failed',
+            response.status,
+            data.retryAfter
+          );
+        }
+
+        storeSession(await response.json());
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [storeSession]
+  );
+
+  // Exchange the one-time code from the SSO callback for a session
+  const completeSsoLogin = useCallback(
+    async (code: string): Promise<LoginResult> => {
+      try {
+        setIsLoading(true);
+        const response = await fetch('/api/auth/oidc/exchange', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new AuthRequestError(data.error || 'Single sign-on failed', response.status);
+        }
+
+        const data = await response.json();
+        if (data.mfaRequired) {
+          return { mfaRequired: true, mfaToken: data.mfaToken };
+        }
+
+        storeSession(data);
+        return { mfaRequired: false };
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [storeSession]
+  );
+
+  // Exchange the token from an emailed sign-in link for a session
+  const completeMagicLinkLogin = useCallback(
+    async (token: string): Promise<LoginResult> => {
+      try {
+        setIsLoading(true);
+        const response = await fetch('/api/auth/magic-link/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new AuthRequestError(data.error || 'Sign-in link failed', response.status);
+        }
+
+        const data = await response.json();
+        if (data.mfaRequired) {
+          return { mfaRequired: true, mfaToken: data.mfaToken };
+        }
+
+        storeSession(data);
+        return { mfaRequired: false };
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [storeSession]
   );
 
   const register = useCallback(
@@ -92,29 +244,93 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           throw new Error(data.error || 'Registration failed');
         }
 
-        const data = await response.json();
-        setAccessToken(data.accessToken);
-        setUser(data.user);
-
-        // Save to localStorage
-        localStorage.setItem('accessToken', data.accessToken);
-        localStorage.setItem('user', JSON.stringify(data.user));
-        localStorage.setItem('refreshToken', data.refreshToken);
+        storeSession(await response.json());
       } finally {
         setIsLoading(false);
       }
     },
-    []
+    [storeSession]
   );
 
-  const logout = useCallback(() => {
+  const clearSession = useCallback(() => {
     setUser(null);
     setAccessToken(null);
     localStorage.removeItem('accessToken');
     localStorage.removeItem('user');
     localStorage.removeItem('refreshToken');
+    localStorage.removeItem('authMode');
+    localStorage.removeItem('impersonatorSession');
+    setIsImpersonating(false);
   }, []);
 
+  const logout = useCallback(async () => {
+    try {
+      // Revoke the session server-side so the tokens stop working immediately
+      await apiClient.post('/api/auth/logout');
+    } catch (error) {
+      console.error('[v0] Logout error:', error);
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  const logoutAll = useCallback(async () => {
+    try {
+      await apiClient.post('/api/auth/logout-all');
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  // The server revokes every session itself, so only local state is cleared
+  const deleteAccount = useCallback(
+    async (password: string) => {
+      await apiClient.delete('/api/me', { data: { password } });
+      clearSession();
+    },
+    [clearSession]
+  );
+
+  // Admins: sign in as another user, keeping the admin session to return to
+  const impersonate = useCallback(
+    async (userId: string) => {
+      const response = await apiClient.post(`/api/admin/users/${userId}/impersonate`);
+
+      // In cookie mode the admin's cookies were replaced, so only the user is kept
+      const stash: ImpersonatorSession = { user: user! };
+      if (response.data.authMode !== 'cookie') {
+        stash.accessToken = localStorage.getItem('accessToken') ?? undefined;
+        stash.refreshToken = localStorage.getItem('refreshToken') ?? undefined;
+      }
+
+      storeSession(response.data);
+      localStorage.setItem('impersonatorSession', JSON.stringify(stash));
+      setIsImpersonating(true);
+    },
+    [user, storeSession]
+  );
+
+  // End impersonation; returns true if the admin session was restored
+  // (false in cookie mode, where the admin has to sign in again)
+  const stopImpersonating = useCallback(async () => {
+    const saved = localStorage.getItem('impersonatorSession');
+
+    try {
+      await apiClient.post('/api/auth/logout');
+    } catch (error) {
+      console.error('[v0] Logout error:', error);
+    }
+
+    clearSession();
+    const stash: ImpersonatorSession | null = saved ? JSON.parse(saved) : null;
+    if (!stash?.accessToken || !stash.refreshToken) {
+      return false;
+    }
+
+    storeSession({ user: stash.user, accessToken: stash.accessToken, refreshToken: stash.refreshToken });
+    return true;
+  }, [clearSession, storeSession]);
+
   const updateAccessToken = useCallback((token: string | null) => {
     setAccessToken(token);
     if (token) {
@@ -124,6 +340,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  // Keep the cached user in sync after server-side changes
+  const updateUser = useCallback((changes: Partial<User>) => {
+    setUser((prev) => {
+      if (!prev) return prev;
+      const next = { ...prev, ...changes };
+      localStorage.setItem('user', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // Reload the profile from the server (e.g. after it changed on another device)
+  const refreshUser = useCallback(async () => {
+    const response = await apiClient.get('/api/me');
+    const { id, email, name, emailVerified, role } = response.data.user;
+    updateUser({ id, email, name: name ?? undefined, emailVerified, role });
+  }, [updateUser]);
+
+  // The user cached in localStorage may be stale; revalidate once per page load
+  useEffect(() => {
+    if (isLoading || !user || hasRevalidated.current) return;
+    hasRevalidated.current = true;
+    refreshUser().catch((error) => console.error('[v0] Refresh user error:', error));
+  }, [isLoading, user, refreshUser]);
+
   return (
     <AuthContext.Provider
       value={{
@@ -132,9 +372,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isAuthenticated: !!user,
         accessToken,
         login,
+        completeMfaLogin,
+        completeSsoLogin,
+        completeMagicLinkLogin,
         register,
         logout,
+        logoutAll,
         setAccessToken: updateAccessToken,
+        updateUser,
+        refreshUser,
+        deleteAccount,
+        isImpersonating,
+        impersonate,
+        stopImpersonating,
       }}
     >
       {children}
@@ -0,0 +1,12 @@
+/**
+ * Next.js instrumentation hook, run once when the server starts
+ * Validates the JWT keyring so a production server without a real secret
+ * fails to start instead of signing tokens with a guessable key
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getJwtKeyring } = await import('@/lib/jwt-keys');
+    getJwtKeyring();
+  }
+}
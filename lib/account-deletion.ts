@@ -0,0 +1,61 @@
+/**
+ * Account deletion with a grace period
+ * Deleting an account only schedules it: the user is signed out everywhere and
+ * the account is hard-deleted (tasks and all other rows cascade) once
+ * ACCOUNT_DELETION_GRACE_DAYS have passed. Signing in again before then cancels it.
+ */
+
+import { prisma } from '@/lib/db';
+import { revokeAllSessions } from '@/lib/sessions';
+
+/**
+ * Days between a deletion request and the hard delete
+ */
+export function getDeletionGraceDays(): number {
+  return parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30');
+}
+
+/**
+ * Schedule an account for deletion and sign it out everywhere
+ * Personal access tokens are revoked too and are not restored on cancellation
+ * @param userId - Account to delete
+ * @returns When the account will be deleted
+ */
+export async function scheduleAccountDeletion(userId: string): Promise<Date> {
+  const deletionScheduledAt = new Date(Date.now() + getDeletionGraceDays() * 86400 * 1000);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionScheduledAt },
+  });
+  await prisma.personalAccessToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await revokeAllSessions(userId);
+
+  return deletionScheduledAt;
+}
+
+/**
+ * Cancel a pending deletion (called on successful sign-in)
+ * @returns True if a deletion was pending
+ */
+export async function cancelAccountDeletion(userId: string): Promise<boolean> {
+  const result = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledAt: { not: null } },
+    data: { deletionScheduledAt: null },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Hard-delete every account whose grace period has ended
+ * @returns Number of accounts deleted
+ */
+export async function purgeDeletedAccounts(): Promise<number> {
+  const result = await prisma.user.deleteMany({
+    where: { deletionScheduledAt: { lte: new Date() } },
+  });
+  return result.count;
+}
@@ -0,0 +1,126 @@
+/**
+ * Personal data export
+ * Builds a zip archive with the user's profile, tasks, projects, workflow
+ * statuses and tags as JSON and the tasks as CSV for spreadsheets
+ */
+
+import { prisma } from '@/lib/db';
+import { taskInclude, serializeTask } from '@/lib/task-records';
+import { strToU8, zipSync } from 'fflate';
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Quote a value for CSV (RFC 4180)
+ */
+function toCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line
+ */
+function toCsv(columns: string[], rows: CsvValue[][]): string {
+  return [columns, ...rows].map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Build the export archive for a user
+ * @param userId - Account to export
+ * @returns Zip file contents, or null if the user does not exist
+ */
+export async function buildAccountExport(userId: string): Promise<Uint8Array | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      emailVerifiedAt: true,
+      mfaEnabledAt: true,
+      taskSort: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const tasks = (
+    await prisma.task.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: taskInclude,
+    })
+  ).map(serializeTask);
+
+  const projects = await prisma.project.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+    select: { id: true, name: true, color: true, icon: true, archivedAt: true, createdAt: true },
+  });
+
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { userId },
+    orderBy: { position: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      color: true,
+      position: true,
+      countsAsDone: true,
+      transitions: { select: { toStatusId: true } },
+    },
+  });
+
+  const tags = await prisma.tag.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+    select: { id: true, name: true, color: true, createdAt: true },
+  });
+
+  const exportedAt = new Date().toISOString();
+  const tasksCsv = toCsv(
+    [
+      'id',
+      'title',
+      'description',
+      'status',
+      'workflowStatus',
+      'priority',
+      'dueAt',
+      'project',
+      'tags',
+      'checklist',
+      'createdAt',
+      'updatedAt',
+    ],
+    tasks.map((task) => [
+      task.id,
+      task.title,
+      task.description,
+      task.status,
+      task.workflowStatus?.name,
+      task.priority,
+      task.dueAt,
+      task.project?.name,
+      task.tags.map((tag) => tag.name).join('; '),
+      task.progress.total ? `${task.progress.completed}/${task.progress.total}` : '',
+      task.createdAt,
+      task.updatedAt,
+    ])
+  );
+
+  return zipSync({
+    'profile.json': strToU8(JSON.stringify({ exportedAt, user }, null, 2)),
+    'tasks.json': strToU8(JSON.stringify({ exportedAt, tasks }, null, 2)),
+    'projects.json': strToU8(JSON.stringify({ exportedAt, projects }, null, 2)),
+    'statuses.json': strToU8(JSON.stringify({ exportedAt, statuses }, null, 2)),
+    'tags.json': strToU8(JSON.stringify({ exportedAt, tags }, null, 2)),
+    'tasks.csv': strToU8(tasksCsv),
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * Admin user management
+ * Role checks for /api/admin/* and the account actions admins can take.
+ * Every action is written to the audit log.
+ */
+
+import { prisma } from '@/lib/db';
+import { revokeAllSessions, SessionMetadata } from '@/lib/sessions';
+import { issueAuthTokens, AuthTokens } from '@/lib/refresh-tokens';
+import { sendPasswordResetEmail } from '@/lib/password-reset';
+import { Prisma } from '@prisma/client';
+
+export type AuditAction =
+  | 'user.disable'
+  | 'user.enable'
+  | 'user.force_password_reset'
+  | 'user.impersonate';
+
+interface AuditUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Check whether a user is an active admin
+ * The role is read from the database so demotions apply immediately
+ */
+export async function isAdmin(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, disabledAt: true },
+  });
+  return user?.role === 'ADMIN' && !user.disabledAt;
+}
+
+/**
+ * Record an admin action
+ * @param actor - Admin performing the action
+ * @param action - What was done
+ * @param target - Affected user
+ * @param ipAddress - Admin's IP address
+ */
+export async function recordAuditEvent(
+  actor: AuditUser,
+  action: AuditAction,
+  target: AuditUser | null,
+  ipAddress: string | null
+): Promise<void> {
+  await prisma.auditLog.create({
+    data: {
+      actorId: actor.id,
+      actorEmail: actor.email,
+      action,
+      targetId: target?.id ?? null,
+      targetEmail: target?.email ?? null,
+      ipAddress,
+    },
+  });
+}
+
+/**
+ * List users for the admin console
+ * @param search - Matches email or name (case-insensitive)
+ * @param page - 1-based page number
+ * @param limit - Page size
+ */
+export async function listUsers(search: string | null, page: number, limit: number) {
+  const where: Prisma.UserWhereInput = search
+    ? {
+        OR: [
+          { email: { contains: search, mode: 'insensitive' } },
+          { name: { contains: search, mode: 'insensitive' } },
+        ],
+      }
+    : {};
+
+  const [total, users] = await Promise.all([
+    prisma.user.count({ where }),
+    prisma.user.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        emailVerifiedAt: true,
+        mfaEnabledAt: true,
+        disabledAt: true,
+        passwordResetRequired: true,
+        deletionScheduledAt: true,
+        lastLoginAt: true,
+        createdAt: true,
+        _count: { select: { tasks: true } },
+      },
+    }),
+  ]);
+
+  return {
+    users: users.map(({ _count, ...user }) => ({ ...user, taskCount: _count.tasks })),
+    total,
+  };
+}
+
+/**
+ * Disable an account and sign it out everywhere
+ */
+export async function disableUser(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { disabledAt: new Date() },
+  });
+  await revokeAllSessions(userId);
+}
+
+/**
+ * Re-enable a disabled account
+ */
+export async function enableUser(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { disabledAt: null },
+  });
+}
+
+/**
+ * Require a password reset: sign the user out, refuse password logins until
+ * the reset is done, and email a reset link
+ * @param user - Affected user
+ * @param appUrl - Base URL for the reset link
+ */
+export async function forcePasswordReset(user: AuditUser, appUrl: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { passwordResetRequired: true },
+  });
+  await revokeAllSessions(user.id);
+  await sendPasswordResetEmail(user, appUrl);
+}
+
+/**
+ * Start a session as another user
+ * The session records the admin, shows up in the user's device list and can
+ * be revoked like any other
+ * @param admin - Admin signing in as the user
+ * @param target - User to impersonate
+ * @param metadata - Admin's device information
+ */
+export async function impersonateUser(
+  admin: AuditUser,
+  target: AuditUser,
+  metadata: SessionMetadata
+): Promise<AuthTokens> {
+  return issueAuthTokens(target, metadata, { impersonatorId: admin.id });
+}
@@ -1,12 +1,30 @@
 /**
  * API client with automatic token injection
  * FINAL SAFE VERSION – no baseURL at all
+ * Expired access tokens are refreshed transparently and queued requests retried
  */
 
-import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { CSRF_COOKIE, CSRF_HEADER } from '@/lib/auth-cookie-names';
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Read the CSRF cookie set in cookie auth mode
+ */
+function getCsrfToken(): string | null {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${CSRF_COOKIE}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : null;
+}
 
 class APIClient {
   private client: AxiosInstance;
+  // In-flight refresh shared by every request that hits a 401 meanwhile
+  private refreshPromise: Promise<string | null> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -17,7 +35,7 @@ class APIClient {
       },
     });
 
-    // Inject JWT token
+    // Inject JWT token (header mode) or CSRF token (cookie mode)
     this.client.interceptors.request.use(
       (config: InternalAxiosRequestConfig) => {
         if (typeof window !== 'undefined') {
@@ -25,27 +43,102 @@ class APIClient {
           if (token) {
             config.headers.Authorization = `Bearer ${token}`;
           }
+
+          const csrfToken = getCsrfToken();
+          if (csrfToken && !SAFE_METHODS.includes((config.method || 'get').toLowerCase())) {
+            config.headers[CSRF_HEADER] = csrfToken;
+          }
         }
         return config;
       }
     );
 
-    // Handle auth errors
+    // Handle auth errors: refresh once, then retry the original request
     this.client.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          if (typeof window !== 'undefined') {
-            localStorage.removeItem('accessToken');
-            localStorage.removeItem('user');
-            window.location.href = '/login';
+      async (error: AxiosError) => {
+        const original = error.config as RetryableRequestConfig | undefined;
+
+        if (
+          error.response?.status !== 401 ||
+          typeof window === 'undefined' ||
+          !original ||
+          original._retry
+        ) {
+          if (error.response?.status === 401) {
+            this.handleAuthFailure();
           }
+          return Promise.reject(error);
+        }
+
+        original._retry = true;
+
+        try {
+          const token = await this.refreshAccessToken();
+          if (token) {
+            original.headers.Authorization = `Bearer ${token}`;
+          }
+          return this.client(original);
+        } catch {
+          this.handleAuthFailure();
+          return Promise.reject(error);
         }
-        return Promise.reject(error);
       }
     );
   }
 
+  /**
+   * Refresh the access token, sharing a single request between callers
+   * so a burst of 401s rotates the refresh token only once
+   * @returns New access token, or null in cookie mode where it lives in a cookie
+   */
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const refreshToken = localStorage.getItem('refreshToken');
+        const isCookieMode = localStorage.getItem('authMode') === 'cookie';
+        if (!refreshToken && !isCookieMode) {
+          throw new Error('No refresh token');
+        }
+
+        // Plain axios so the refresh call bypasses these interceptors
+        const csrfToken = getCsrfToken();
+        const response = await axios.post(
+          '/api/auth/refresh',
+          refreshToken ? { refreshToken } : {},
+          { headers: csrfToken ? { [CSRF_HEADER]: csrfToken } : {} }
+        );
+        const { accessToken, refreshToken: nextRefreshToken, user } = response.data;
+
+        if (accessToken) {
+          localStorage.setItem('accessToken', accessToken);
+          localStorage.setItem('refreshToken', nextRefreshToken);
+        }
+        localStorage.setItem('user', JSON.stringify(user));
+
+        return (accessToken as string | undefined) ?? null;
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Clear stored credentials and send the user to the login page
+   */
+  private handleAuthFailure() {
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      localStorage.removeItem('user');
+      localStorage.removeItem('authMode');
+      localStorage.removeItem('impersonatorSession');
+      window.location.href = '/login';
+    }
+  }
+
   get<T = any>(url: string, config?: any) {
     return this.client.get<T>(url, config);
   }
@@ -58,6 +151,10 @@ class APIClient {
     return this.client.patch<T>(url, data, config);
   }
 
+  put<T = any>(url: string, data?: any, config?: any) {
+    return this.client.put<T>(url, data, config);
+  }
+
   delete<T = any>(url: string, config?: any) {
     return this.client.delete<T>(url, config);
   }
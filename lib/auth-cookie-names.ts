@@ -0,0 +1,47 @@
+/**
+ * Auth cookie names, Authorization header parsing and CSRF check
+ * Kept free of Node and database imports so middleware.ts can use it
+ */
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_COOKIE = 'csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+
+/**
+ * Extract token from Authorization header
+ * @param authHeader - Authorization header value
+ * @returns Token string or null
+ */
+export function extractToken(authHeader?: string): string | null {
+  if (!authHeader) return null;
+  const parts = authHeader.split(' ');
+  if (parts.length === 2 && parts[0] === 'Bearer') {
+    return parts[1];
+  }
+  return null;
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Double-submit check: the CSRF header must match the CSRF cookie
+ * @param cookieValue - Value of the csrf_token cookie
+ * @param headerValue - Value of the X-CSRF-Token header
+ */
+export function isValidCsrfToken(
+  cookieValue: string | undefined,
+  headerValue: string | null
+): boolean {
+  return !!cookieValue && !!headerValue && constantTimeEqual(cookieValue, headerValue);
+}
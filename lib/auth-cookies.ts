@@ -0,0 +1,103 @@
+/**
+ * Cookie-based browser authentication
+ * With AUTH_MODE=cookie, login/register/refresh put tokens in httpOnly cookies
+ * instead of the response body, so page scripts never see them. Mutating
+ * requests authenticated by cookie must echo the readable CSRF cookie in the
+ * X-CSRF-Token header (double-submit); middleware.ts enforces this.
+ */
+
+import { generateOpaqueToken, getAccessTokenExpiry, getRefreshTokenExpiry } from '@/lib/auth';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  CSRF_COOKIE,
+  extractToken,
+} from '@/lib/auth-cookie-names';
+import { NextRequest, NextResponse } from 'next/server';
+
+export { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, CSRF_COOKIE };
+
+interface CookieTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * True when browser auth uses httpOnly cookies rather than localStorage
+ */
+export function isCookieMode(): boolean {
+  return process.env.AUTH_MODE === 'cookie';
+}
+
+/**
+ * Token for the request: the Authorization header wins, then the access cookie
+ * @param req - Incoming request
+ * @returns Token string or null
+ */
+export function getRequestToken(req: NextRequest): string | null {
+  return (
+    extractToken(req.headers.get('authorization') || '') ||
+    req.cookies.get(ACCESS_TOKEN_COOKIE)?.value ||
+    null
+  );
+}
+
+/**
+ * Set auth and CSRF cookies on a response
+ */
+export function setAuthCookies(response: NextResponse, tokens: CookieTokens) {
+  const secure = process.env.NODE_ENV === 'production';
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: getAccessTokenExpiry(),
+  });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: getRefreshTokenExpiry(),
+  });
+  // Readable by page scripts on purpose: they copy it into the CSRF header
+  response.cookies.set(CSRF_COOKIE, generateOpaqueToken(16), {
+    httpOnly: false,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: getRefreshTokenExpiry(),
+  });
+}
+
+/**
+ * Remove auth and CSRF cookies (logout)
+ */
+export function clearAuthCookies(response: NextResponse) {
+  for (const name of [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, CSRF_COOKIE]) {
+    response.cookies.set(name, '', { path: '/', maxAge: 0 });
+  }
+}
+
+/**
+ * Build the response for endpoints that issue tokens
+ * Header mode returns the tokens in the body; cookie mode sets cookies instead
+ * @param body - Response body without tokens
+ * @param tokens - Issued tokens
+ * @param status - HTTP status
+ */
+export function authTokensResponse(
+  body: Record<string, unknown>,
+  tokens: CookieTokens,
+  status: number = 200
+): NextResponse {
+  if (!isCookieMode()) {
+    return NextResponse.json({ ...body, ...tokens }, { status });
+  }
+
+  const response = NextResponse.json({ ...body, authMode: 'cookie' }, { status });
+  setAuthCookies(response, tokens);
+  return response;
+}
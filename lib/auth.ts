@@ -4,47 +4,204 @@
  */
 
 import * as crypto from 'crypto';
+import { touchSession } from '@/lib/sessions';
+import { getJwtKeyring, getJwtIssuer, getJwtAudience } from '@/lib/jwt-keys';
 
 // JWT token types
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId?: string;
+  // Set on restricted tokens (e.g. pending two-factor login) that are not access tokens
+  purpose?: 'mfa';
+  // Set when the request was authenticated with a personal access token
+  scope?: 'READ' | 'WRITE';
+  // Admin user id when an admin is signed in as this user
+  impersonatorId?: string;
+  iss?: string;
+  aud?: string;
   iat?: number;
   exp?: number;
 }
 
+type PasswordAlgorithm = 'scrypt' | 'pbkdf2-sha512';
+
+interface PasswordHashParams {
+  algorithm: PasswordAlgorithm;
+  // scrypt: N, r, p; pbkdf2: i (iterations)
+  params: Record<string, number>;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+const PASSWORD_KEY_LENGTH = 64;
+
 /**
- * Hash a password using Node.js built-in crypto (simple implementation)
- * Note: For production, use bcrypt package
+ * Current hashing settings; raise the cost over time via env and stored
+ * hashes are upgraded on the next successful login
+ */
+function getPasswordHashConfig(): { algorithm: PasswordAlgorithm; params: Record<string, number> } {
+  if (process.env.PASSWORD_HASH_ALGORITHM === 'pbkdf2-sha512') {
+    return {
+      algorithm: 'pbkdf2-sha512',
+      params: { i: parseInt(process.env.PBKDF2_ITERATIONS || '210000') },
+    };
+  }
+
+  return {
+    algorithm: 'scrypt',
+    params: {
+      N: parseInt(process.env.SCRYPT_COST || '32768'),
+      r: 8,
+      p: 1,
+    },
+  };
+}
+
+function derivePasswordKey(
+  password: string,
+  algorithm: PasswordAlgorithm,
+  params: Record<string, number>,
+  salt: Buffer,
+  keyLength: number
+): Buffer {
+  if (algorithm === 'scrypt') {
+    return crypto.scryptSync(password, salt, keyLength, {
+      N: params.N,
+      r: params.r,
+      p: params.p,
+      // Default maxmem (32 MiB) is too small for N=32768, r=8
+      maxmem: 256 * params.N * params.r,
+    });
+  }
+  return crypto.pbkdf2Sync(password, salt, params.i, keyLength, 'sha512');
+}
+
+/**
+ * Parse a stored hash
+ * Format: $<algorithm>$<k=v,...>$<salt b64>$<hash b64>
+ * Hashes from before versioning ("salt:hash", PBKDF2-SHA512, 100k iterations,
+ * hex salt used as a string) are still understood
+ */
+function parsePasswordHash(stored: string): PasswordHashParams | null {
+  if (!stored.startsWith('$')) {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return null;
+    return {
+      algorithm: 'pbkdf2-sha512',
+      params: { i: 100000 },
+      salt: Buffer.from(salt),
+      hash: Buffer.from(hash, 'hex'),
+    };
+  }
+
+  const [, algorithm, encodedParams, salt, hash] = stored.split('$');
+  if ((algorithm !== 'scrypt' && algorithm !== 'pbkdf2-sha512') || !salt || !hash) {
+    return null;
+  }
+
+  const params: Record<string, number> = {};
+  for (const pair of encodedParams.split(',')) {
+    const [key, value] = pair.split('=');
+    params[key] = parseInt(value);
+  }
+
+  return {
+    algorithm,
+    params,
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64'),
+  };
+}
+
+/**
+ * Hash a password with the configured algorithm (scrypt by default)
  * @param password - Plain text password
- * @returns Hashed password
+ * @returns Self-describing hash: $<algorithm>$<params>$<salt>$<hash>
  */
 export function hashPassword(password: string): string {
-  // For production, use: bcryptjs.hashSync(password, 10)
-  const salt = crypto.randomBytes(16).toString('hex');
-  const hash = crypto
-    .pbkdf2Sync(password, salt, 100000, 64, 'sha512')
-    .toString('hex');
-  return `${salt}:${hash}`;
+  const { algorithm, params } = getPasswordHashConfig();
+  const salt = crypto.randomBytes(16);
+  const hash = derivePasswordKey(password, algorithm, params, salt, PASSWORD_KEY_LENGTH);
+  const encodedParams = Object.entries(params)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',');
+
+  return `$${algorithm}$${encodedParams}$${salt.toString('base64')}$${hash.toString('base64')}`;
 }
 
 /**
  * Verify a password against its hash
  * @param password - Plain text password to verify
- * @param hash - Stored hash
+ * @param hash - Stored hash (current or legacy format)
  * @returns True if password matches
  */
 export function verifyPassword(password: string, hash: string): boolean {
-  const [salt, storedHash] = hash.split(':');
-  const computedHash = crypto
-    .pbkdf2Sync(password, salt, 100000, 64, 'sha512')
-    .toString('hex');
-  return computedHash === storedHash;
+  const parsed = parsePasswordHash(hash);
+  if (!parsed) {
+    return false;
+  }
+
+  const computed = derivePasswordKey(
+    password,
+    parsed.algorithm,
+    parsed.params,
+    parsed.salt,
+    parsed.hash.length
+  );
+  return computed.length === parsed.hash.length && crypto.timingSafeEqual(computed, parsed.hash);
+}
+
+/**
+ * Whether an account has a password it can sign in or confirm changes with
+ * Accounts created through single sign-on store '!' until the user sets one
+ * with a reset link
+ * @param hash - Stored hash
+ */
+export function hasPassword(hash: string): boolean {
+  return parsePasswordHash(hash) !== null;
+}
+
+/**
+ * Check the password a user confirmed a sensitive change with
+ * Accounts without a password are told to set one first
+ * @param user - Account being changed, or null if it no longer exists
+ * @param password - Password from the request
+ * @param incorrectMessage - Error for a wrong password
+ * @returns Error message for a 403 response, or null if the password is correct
+ */
+export function passwordConfirmationError(
+  user: { password: string } | null,
+  password: string,
+  incorrectMessage: string = 'Incorrect password'
+): string | null {
+  if (user && !hasPassword(user.password)) {
+    return 'This account has no password yet. Set one with "Forgot password" on the sign-in page.';
+  }
+  return user && verifyPassword(password, user.password) ? null : incorrectMessage;
 }
 
 /**
- * Create a JWT token (simple implementation for demo)
- * Note: For production, use jsonwebtoken package
+ * Whether a stored hash uses an outdated algorithm or parameters
+ * Call after a successful verifyPassword and store hashPassword(password) if true
+ * @param hash - Stored hash
+ */
+export function needsRehash(hash: string): boolean {
+  const parsed = parsePasswordHash(hash);
+  if (!parsed || !hash.startsWith('$')) {
+    return true;
+  }
+
+  const { algorithm, params } = getPasswordHashConfig();
+  return (
+    parsed.algorithm !== algorithm ||
+    parsed.hash.length !== PASSWORD_KEY_LENGTH ||
+    Object.entries(params).some(([key, value]) => parsed.params[key] !== value)
+  );
+}
+
+/**
+ * Create a JWT token signed with the active keyring key
  * @param payload - JWT payload
  * @param expiresIn - Expiration time in seconds
  * @returns JWT token string
@@ -53,20 +210,22 @@ export function createToken(
   payload: JWTPayload,
   expiresIn: number = 900 // 15 minutes default
 ): string {
+  const { active } = getJwtKeyring();
   const header = {
     alg: 'HS256',
     typ: 'JWT',
+    kid: active.kid,
   };
 
   const now = Math.floor(Date.now() / 1000);
   const tokenPayload = {
     ...payload,
+    iss: getJwtIssuer(),
+    aud: getJwtAudience(),
     iat: now,
     exp: now + expiresIn,
   };
 
-  const secret = process.env.JWT_SECRET || 'default-secret';
-
   const headerEncoded = Buffer.from(JSON.stringify(header)).toString('base64url');
   const payloadEncoded = Buffer.from(JSON.stringify(tokenPayload)).toString(
     'base64url'
@@ -74,7 +233,7 @@ export function createToken(
 
   const signatureInput = `${headerEncoded}.${payloadEncoded}`;
   const signature = crypto
-    .createHmac('sha256', secret)
+    .createHmac('sha256', active.secret)
     .update(signatureInput)
     .digest('base64url');
 
@@ -82,13 +241,13 @@ export function createToken(
 }
 
 /**
- * Verify and decode a JWT token
- * @param token - JWT token to verify
+ * Decode a JWT token, checking its signature, issuer, audience and expiry
+ * The signing key is looked up by the token's kid header
+ * @param token - JWT token to decode
  * @returns Decoded payload or null if invalid
  */
-export function verifyToken(token: string): JWTPayload | null {
+export function decodeToken<T = JWTPayload>(token: string): T | null {
   try {
-    const secret = process.env.JWT_SECRET || 'default-secret';
     const parts = token.split('.');
 
     if (parts.length !== 3) {
@@ -96,13 +255,22 @@ export function verifyToken(token: string): JWTPayload | null {
     }
 
     const [headerEncoded, payloadEncoded, signatureProvided] = parts;
+    const header = JSON.parse(Buffer.from(headerEncoded, 'base64url').toString());
+    const key = getJwtKeyring().keys.get(header.kid);
+    if (header.alg !== 'HS256' || !key) {
+      return null;
+    }
+
     const signatureInput = `${headerEncoded}.${payloadEncoded}`;
-    const signatureComputed = crypto
-      .createHmac('sha256', secret)
-      .update(signatureInput)
-      .digest('base64url');
+    const signatureComputed = Buffer.from(
+      crypto.createHmac('sha256', key.secret).update(signatureInput).digest('base64url')
+    );
+    const signatureBuffer = Buffer.from(signatureProvided);
 
-    if (signatureComputed !== signatureProvided) {
+    if (
+      signatureComputed.length !== signatureBuffer.length ||
+      !crypto.timingSafeEqual(signatureComputed, signatureBuffer)
+    ) {
       return null;
     }
 
@@ -110,6 +278,10 @@ export function verifyToken(token: string): JWTPayload | null {
       Buffer.from(payloadEncoded, 'base64url').toString()
     );
 
+    if (payload.iss !== getJwtIssuer() || payload.aud !== getJwtAudience()) {
+      return null;
+    }
+
     // Check if token is expired
     const now = Math.floor(Date.now() / 1000);
     if (payload.exp && payload.exp < now) {
@@ -124,15 +296,59 @@ export function verifyToken(token: string): JWTPayload | null {
 }
 
 /**
- * Extract token from Authorization header
- * @param authHeader - Authorization header value
- * @returns Token string or null
+ * Verify an access token
+ * Rejects tokens that fail decoding or whose session has been revoked
+ * @param token - JWT token to verify
+ * @returns Decoded payload or null if invalid
  */
-export function extractToken(authHeader?: string): string | null {
-  if (!authHeader) return null;
-  const parts = authHeader.split(' ');
-  if (parts.length === 2 && parts[0] === 'Bearer') {
-    return parts[1];
+export async function verifyToken(token: string): Promise<JWTPayload | null> {
+  const payload = decodeToken(token);
+  if (!payload || !payload.sessionId || payload.purpose) {
+    return null;
   }
-  return null;
+
+  if (!(await touchSession(payload.sessionId))) {
+    return null;
+  }
+
+  return payload;
+}
+
+/**
+ * Access token lifetime in seconds from JWT_EXPIRE_IN
+ * Accepts plain seconds or minutes with an "m" suffix (15m = 900s)
+ */
+export function getAccessTokenExpiry(): number {
+  return process.env.JWT_EXPIRE_IN?.includes('m')
+    ? parseInt(process.env.JWT_EXPIRE_IN) * 60
+    : parseInt(process.env.JWT_EXPIRE_IN || '900');
+}
+
+/**
+ * Refresh token lifetime in seconds from JWT_REFRESH_EXPIRE_IN
+ * Accepts plain seconds or days with a "d" suffix (7d = 604800s)
+ */
+export function getRefreshTokenExpiry(): number {
+  return process.env.JWT_REFRESH_EXPIRE_IN?.includes('d')
+    ? parseInt(process.env.JWT_REFRESH_EXPIRE_IN) * 86400
+    : parseInt(process.env.JWT_REFRESH_EXPIRE_IN || '604800');
+}
+
+/**
+ * Generate a random opaque token (refresh tokens, one-time links)
+ * @param bytes - Number of random bytes
+ * @returns URL-safe token string
+ */
+export function generateOpaqueToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash an opaque token for storage
+ * Only the SHA-256 digest is persisted so a database leak does not leak tokens
+ * @param token - Opaque token
+ * @returns Hex encoded digest
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
 }
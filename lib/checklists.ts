@@ -0,0 +1,81 @@
+/**
+ * Task checklists
+ * Ordered steps inside a task; the task's progress is how many are completed
+ */
+
+import { prisma } from '@/lib/db';
+import { CHECKLIST_ITEM_MAX_LENGTH, CHECKLIST_MAX_ITEMS } from '@/lib/tasks';
+
+/**
+ * Validate a checklist item title
+ * @returns The trimmed title, or null if it is empty or too long
+ */
+export function normalizeChecklistTitle(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const title = value.trim();
+  return title.length > 0 && title.length <= CHECKLIST_ITEM_MAX_LENGTH ? title : null;
+}
+
+/**
+ * Validate the checklist sent when creating a task
+ * @param value - Value of the request's `checklist` field
+ * @returns Trimmed titles in order, or null if the value is not an array of valid titles
+ */
+export function resolveChecklistTitles(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > CHECKLIST_MAX_ITEMS) {
+    return null;
+  }
+
+  const titles = value.map(normalizeChecklistTitle);
+  return titles.every((title) => title !== null) ? (titles as string[]) : null;
+}
+
+/**
+ * Position for an item appended to the end of a task's checklist
+ * @returns The position, or null if the checklist is full
+ */
+export async function nextChecklistPosition(taskId: string): Promise<number | null> {
+  const { _count, _max } = await prisma.checklistItem.aggregate({
+    where: { taskId },
+    _count: { _all: true },
+    _max: { position: true },
+  });
+
+  if (_count._all >= CHECKLIST_MAX_ITEMS) {
+    return null;
+  }
+  return (_max.position ?? -1) + 1;
+}
+
+/**
+ * Put a task's checklist in the given order
+ * @param taskId - Task whose checklist is reordered
+ * @param itemIds - Value of the request's `itemIds` field
+ * @returns false if itemIds is not exactly the task's item ids
+ */
+export async function reorderChecklist(taskId: string, itemIds: unknown): Promise<boolean> {
+  if (!Array.isArray(itemIds) || !itemIds.every((id) => typeof id === 'string')) {
+    return false;
+  }
+
+  const items = await prisma.checklistItem.findMany({
+    where: { taskId },
+    select: { id: true },
+  });
+
+  const currentIds = new Set(items.map((item) => item.id));
+  if (
+    itemIds.length !== currentIds.size ||
+    new Set(itemIds).size !== itemIds.length ||
+    !itemIds.every((id) => currentIds.has(id))
+  ) {
+    return false;
+  }
+
+  await prisma.$transaction(
+    itemIds.map((id, position) =>
+      prisma.checklistItem.update({ where: { id }, data: { position } })
+    )
+  );
+  return true;
+}
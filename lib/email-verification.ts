@@ -0,0 +1,109 @@
+/**
+ * Email verification
+ * Sends verification links and enforces what unverified accounts may do.
+ * UNVERIFIED_USER_POLICY controls task access until the address is confirmed:
+ * - allow: no restriction
+ * - read-only: tasks can be listed but not created, changed or deleted (default)
+ * - block: no task access at all
+ */
+
+import { prisma } from '@/lib/db';
+import { createOneTimeToken } from '@/lib/one-time-tokens';
+import { sendMail } from '@/lib/mail';
+import { emailVerificationEmail } from '@/lib/emails';
+
+export type UnverifiedUserPolicy = 'allow' | 'read-only' | 'block';
+
+export type TaskAccess = 'read' | 'write';
+
+/**
+ * Policy applied to accounts whose email is not verified yet
+ */
+export function getUnverifiedUserPolicy(): UnverifiedUserPolicy {
+  const policy = process.env.UNVERIFIED_USER_POLICY;
+  if (policy === 'allow' || policy === 'block') {
+    return policy;
+  }
+  return 'read-only';
+}
+
+/**
+ * Email a verification link to a user
+ * @param user - Recipient
+ * @param appUrl - Base URL for the link
+ */
+export async function sendVerificationEmail(
+  user: { id: string; email: string },
+  appUrl: string
+): Promise<void> {
+  const expiresIn = parseInt(process.env.EMAIL_VERIFICATION_EXPIRE_IN || '86400');
+  const token = await createOneTimeToken(user.id, 'EMAIL_VERIFICATION', expiresIn);
+  const verifyUrl = `${appUrl}/api/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail(emailVerificationEmail(user.email, verifyUrl));
+}
+
+/**
+ * Verify an account for someone who just proved they own its address (a
+ * sign-in link or a provider's verified email) although the account was never verified
+ * Whoever registered the address may not be its owner, so everything they set
+ * up goes: password, sessions, access tokens, two-factor and emailed links
+ * @param userId - Unverified account
+ * @returns The updated user
+ */
+export async function claimUnverifiedAccount(userId: string) {
+  const now = new Date();
+
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      // No usable password; the owner can set one with "Forgot password"
+      data: {
+        emailVerifiedAt: now,
+        password: '!',
+        mfaSecret: null,
+        mfaEnabledAt: null,
+        mfaLastUsedStep: null,
+      },
+    }),
+    prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.personalAccessToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.oneTimeToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: now },
+    }),
+  ]);
+
+  return user;
+}
+
+/**
+ * Check whether a user may access tasks under the unverified-user policy
+ * @param userId - User to check
+ * @param access - Kind of access requested
+ * @returns True if the access is allowed
+ */
+export async function canAccessTasks(userId: string, access: TaskAccess): Promise<boolean> {
+  const policy = getUnverifiedUserPolicy();
+  if (policy === 'allow' || (policy === 'read-only' && access === 'read')) {
+    return true;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerifiedAt: true },
+  });
+
+  return !!user?.emailVerifiedAt;
+}
@@ -0,0 +1,84 @@
+/**
+ * Email templates
+ * Each function builds a MailMessage for a given recipient
+ */
+
+import { MailMessage } from '@/lib/mail';
+import { NextRequest } from 'next/server';
+
+/**
+ * Base URL used in emailed links
+ * APP_URL wins so links stay correct behind proxies
+ */
+export function getAppUrl(req: NextRequest): string {
+  return (process.env.APP_URL || req.nextUrl.origin).replace(/\/$/, '');
+}
+
+/**
+ * Password reset link email
+ */
+export function passwordResetEmail(to: string, resetUrl: string, expiresInMinutes: number): MailMessage {
+  return {
+    to,
+    subject: 'Reset your Task Manager password',
+    text: [
+      'We received a request to reset your Task Manager password.',
+      '',
+      `Open this link to choose a new password (valid for ${expiresInMinutes} minutes):`,
+      resetUrl,
+      '',
+      "If you didn't request this, you can ignore this email.",
+    ].join('\n'),
+    html: `
+      <p>We received a request to reset your Task Manager password.</p>
+      <p><a href="${resetUrl}">Choose a new password</a> (valid for ${expiresInMinutes} minutes).</p>
+      <p>If you didn't request this, you can ignore this email.</p>
+    `,
+  };
+}
+
+/**
+ * Email address verification email
+ */
+export function emailVerificationEmail(to: string, verifyUrl: string): MailMessage {
+  return {
+    to,
+    subject: 'Verify your Task Manager email address',
+    text: [
+      'Welcome to Task Manager!',
+      '',
+      'Please confirm your email address by opening this link:',
+      verifyUrl,
+      '',
+      "If you didn't create an account, you can ignore this email.",
+    ].join('\n'),
+    html: `
+      <p>Welcome to Task Manager!</p>
+      <p><a href="${verifyUrl}">Confirm your email address</a></p>
+      <p>If you didn't create an account, you can ignore this email.</p>
+    `,
+  };
+}
+
+/**
+ * Passwordless sign-in link email
+ */
+export function magicLinkEmail(to: string, signInUrl: string, expiresInMinutes: number): MailMessage {
+  return {
+    to,
+    subject: 'Your Task Manager sign-in link',
+    text: [
+      'Use this link to sign in to Task Manager.',
+      '',
+      `It works once and is valid for ${expiresInMinutes} minutes:`,
+      signInUrl,
+      '',
+      "If you didn't request this, you can ignore this email.",
+    ].join('\n'),
+    html: `
+      <p>Use this link to sign in to Task Manager.</p>
+      <p><a href="${signInUrl}">Sign in</a> (works once, valid for ${expiresInMinutes} minutes).</p>
+      <p>If you didn't request this, you can ignore this email.</p>
+    `,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * JWT signing keyring
+ * Keys are configured as JWT_KEYS="kid1:secret1,kid2:secret2". The key named by
+ * JWT_ACTIVE_KID (default: the first one) signs new tokens; every listed key is
+ * accepted for verification, so a secret can be rotated by adding a new key,
+ * making it active, and removing the old one once its tokens have expired.
+ * A single JWT_SECRET is still supported and becomes the key "default".
+ */
+
+export interface JwtKey {
+  kid: string;
+  secret: string;
+}
+
+export interface JwtKeyring {
+  active: JwtKey;
+  keys: Map<string, JwtKey>;
+}
+
+// Only ever used outside production, where a missing secret is merely a warning
+const DEVELOPMENT_SECRET = 'development-only-insecure-jwt-secret';
+const MIN_SECRET_LENGTH = 32;
+
+let keyring: JwtKeyring | null = null;
+
+function parseKeys(): JwtKey[] {
+  if (process.env.JWT_KEYS) {
+    return process.env.JWT_KEYS.split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) {
+          throw new Error('JWT_KEYS entries must be formatted as kid:secret');
+        }
+        return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+      });
+  }
+
+  if (process.env.JWT_SECRET) {
+    return [{ kid: 'default', secret: process.env.JWT_SECRET }];
+  }
+
+  return [];
+}
+
+function loadKeyring(): JwtKeyring {
+  const isProduction = process.env.NODE_ENV === 'production';
+  let keys = parseKeys();
+
+  if (keys.length === 0) {
+    if (isProduction) {
+      throw new Error('JWT_KEYS or JWT_SECRET must be set in production');
+    }
+    console.warn('[v0] JWT_SECRET is not set, using an insecure development secret');
+    keys = [{ kid: 'development', secret: DEVELOPMENT_SECRET }];
+  }
+
+  if (isProduction) {
+    const weak = keys.find((key) => key.secret.length < MIN_SECRET_LENGTH);
+    if (weak) {
+      throw new Error(`JWT key "${weak.kid}" must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+  }
+
+  const activeKid = process.env.JWT_ACTIVE_KID || keys[0].kid;
+  const active = keys.find((key) => key.kid === activeKid);
+  if (!active) {
+    throw new Error(`JWT_ACTIVE_KID "${activeKid}" is not in JWT_KEYS`);
+  }
+
+  return { active, keys: new Map(keys.map((key) => [key.kid, key])) };
+}
+
+/**
+ * Get the configured keyring, validating it on first use
+ * Throws when the configuration is missing or unsafe for production
+ */
+export function getJwtKeyring(): JwtKeyring {
+  if (!keyring) {
+    keyring = loadKeyring();
+  }
+  return keyring;
+}
+
+/**
+ * Issuer claim set on and required of every token
+ */
+export function getJwtIssuer(): string {
+  return process.env.JWT_ISSUER || 'task-management-system';
+}
+
+/**
+ * Audience claim set on and required of every token
+ */
+export function getJwtAudience(): string {
+  return process.env.JWT_AUDIENCE || 'task-management-api';
+}
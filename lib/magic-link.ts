@@ -0,0 +1,24 @@
+/**
+ * Passwordless sign-in links
+ * A link holds a single-use MAGIC_LINK token that /auth/magic exchanges for a session
+ */
+
+import { createOneTimeToken } from '@/lib/one-time-tokens';
+import { sendMail } from '@/lib/mail';
+import { magicLinkEmail } from '@/lib/emails';
+
+/**
+ * Email a sign-in link to a user
+ * @param user - Recipient
+ * @param appUrl - Base URL for the link
+ */
+export async function sendMagicLinkEmail(
+  user: { id: string; email: string },
+  appUrl: string
+): Promise<void> {
+  const expiresIn = parseInt(process.env.MAGIC_LINK_EXPIRE_IN || '900');
+  const token = await createOneTimeToken(user.id, 'MAGIC_LINK', expiresIn);
+  const signInUrl = `${appUrl}/auth/magic?token=${encodeURIComponent(token)}`;
+
+  await sendMail(magicLinkEmail(user.email, signInUrl, Math.round(expiresIn / 60)));
+}
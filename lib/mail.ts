@@ -0,0 +1,125 @@
+/**
+ * Outgoing mail
+ * Messages go through a MailTransport chosen by MAIL_TRANSPORT:
+ * - smtp: deliver through SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASSWORD
+ * - file: write each message as JSON into MAIL_OUTBOX_DIR (local dev, tests)
+ * - console: print messages to the server log (default)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Deliver mail through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    private from: string,
+    options: { host: string; port: number; secure: boolean; user?: string; password?: string }
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Write each message to a JSON file so it can be read back by scripts and tests
+ */
+export class FileTransport implements MailTransport {
+  constructor(private from: string, private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: this.from, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Print messages to the server log
+ */
+export class ConsoleTransport implements MailTransport {
+  constructor(private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `[v0] Mail from ${this.from} to ${message.to}: ${message.subject}\n${message.text}`
+    );
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Build the transport configured by the environment
+ */
+function createTransportFromEnv(): MailTransport {
+  const from = process.env.MAIL_FROM || 'Task Manager <no-reply@localhost>';
+
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT=smtp');
+      }
+      return new SmtpTransport(from, {
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    case 'file':
+      return new FileTransport(from, process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+    default:
+      return new ConsoleTransport(from);
+  }
+}
+
+/**
+ * Get the configured mail transport
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+}
+
+/**
+ * Replace the mail transport (e.g. with an in-memory one in tests)
+ */
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+/**
+ * Send a message through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,88 @@
+/**
+ * Two-factor authentication
+ * Pending-login tokens, second factor checks and recovery code storage
+ */
+
+import { prisma } from '@/lib/db';
+import { createToken, decodeToken, JWTPayload } from '@/lib/auth';
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from '@/lib/totp';
+
+// A password-verified login must be completed with a code within 5 minutes
+const MFA_PENDING_EXPIRY = 300;
+
+/**
+ * Create the short-lived token returned by /api/auth/login when a code is required
+ */
+export function createMfaPendingToken(user: { id: string; email: string }): string {
+  return createToken(
+    { userId: user.id, email: user.email, purpose: 'mfa' },
+    MFA_PENDING_EXPIRY
+  );
+}
+
+/**
+ * Verify a pending-login token
+ * @returns Payload, or null if invalid, expired or not a pending-login token
+ */
+export function verifyMfaPendingToken(token: string): JWTPayload | null {
+  const payload = decodeToken(token);
+  if (!payload || payload.purpose !== 'mfa') {
+    return null;
+  }
+  return payload;
+}
+
+/**
+ * Check a TOTP code or recovery code for a user with two-factor enabled
+ * Accepted TOTP steps and recovery codes cannot be used again
+ * @param userId - User completing login
+ * @param code - 6-digit TOTP code or a recovery code
+ * @returns True if the code is valid
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { mfaSecret: true, mfaEnabledAt: true, mfaLastUsedStep: true },
+  });
+
+  if (!user?.mfaSecret || !user.mfaEnabledAt) {
+    return false;
+  }
+
+  const step = verifyTotp(user.mfaSecret, code, user.mfaLastUsedStep);
+  if (step !== null) {
+    // Only advance the step if nobody else used this or a later one meanwhile
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+    return updated.count === 1;
+  }
+
+  const consumed = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return consumed.count === 1;
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ * @returns Raw codes, shown to the user once
+ */
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
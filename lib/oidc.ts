@@ -0,0 +1,316 @@
+/**
+ * OpenID Connect single sign-on
+ * Authorization code flow with PKCE against any standards-compliant provider.
+ * The provider is configured with OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET
+ * and OIDC_SCOPES; its endpoints and signing keys come from discovery.
+ */
+
+import * as crypto from 'crypto';
+import { prisma } from '@/lib/db';
+import { generateOpaqueToken } from '@/lib/auth';
+import { claimUnverifiedAccount } from '@/lib/email-verification';
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  scopes: string;
+  providerName: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+// Values kept in the state cookie between the redirect and the callback
+export interface OidcAuthState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+// Cookie holding OidcAuthState, scoped to /api/auth/oidc
+export const OIDC_STATE_COOKIE = 'oidc_auth';
+
+// Provider metadata and keys rarely change; refetch after this long
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+// Tolerated clock difference when checking id_token expiry
+const CLOCK_SKEW_SECONDS = 60;
+
+let discoveryCache: { issuer: string; document: DiscoveryDocument; fetchedAt: number } | null = null;
+let jwksCache: { uri: string; keys: crypto.JsonWebKey[]; fetchedAt: number } | null = null;
+
+/**
+ * Provider settings, or null when SSO is not configured
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    providerName: process.env.OIDC_PROVIDER_NAME || 'SSO',
+  };
+}
+
+/**
+ * Callback URL registered with the provider
+ */
+export function getOidcRedirectUri(appUrl: string): string {
+  return process.env.OIDC_REDIRECT_URI || `${appUrl}/api/auth/oidc/callback`;
+}
+
+/**
+ * Fetch the provider's discovery document (cached)
+ */
+async function discover(config: OidcConfig): Promise<DiscoveryDocument> {
+  if (
+    discoveryCache &&
+    discoveryCache.issuer === config.issuer &&
+    Date.now() - discoveryCache.fetchedAt < DISCOVERY_CACHE_MS
+  ) {
+    return discoveryCache.document;
+  }
+
+  const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`);
+  }
+
+  const document: DiscoveryDocument = await response.json();
+  if (document.issuer.replace(/\/$/, '') !== config.issuer) {
+    throw new Error('OIDC discovery issuer does not match OIDC_ISSUER');
+  }
+
+  discoveryCache = { issuer: config.issuer, document, fetchedAt: Date.now() };
+  return document;
+}
+
+/**
+ * Fetch the provider's signing keys; a forced refresh picks up rotated keys
+ */
+async function getSigningKeys(jwksUri: string, forceRefresh = false): Promise<crypto.JsonWebKey[]> {
+  if (
+    !forceRefresh &&
+    jwksCache &&
+    jwksCache.uri === jwksUri &&
+    Date.now() - jwksCache.fetchedAt < DISCOVERY_CACHE_MS
+  ) {
+    return jwksCache.keys;
+  }
+
+  const response = await fetch(jwksUri);
+  if (!response.ok) {
+    throw new Error(`OIDC JWKS request failed with status ${response.status}`);
+  }
+
+  const { keys } = await response.json();
+  jwksCache = { uri: jwksUri, keys, fetchedAt: Date.now() };
+  return keys;
+}
+
+/**
+ * Start a login: build the provider URL and the values to remember until the callback
+ * @param config - Provider settings
+ * @param redirectUri - Callback URL
+ */
+export async function createAuthorizationRequest(
+  config: OidcConfig,
+  redirectUri: string
+): Promise<{ url: string; authState: OidcAuthState }> {
+  const discovery = await discover(config);
+  const authState: OidcAuthState = {
+    state: generateOpaqueToken(16),
+    nonce: generateOpaqueToken(16),
+    codeVerifier: generateOpaqueToken(32),
+  };
+  const codeChallenge = crypto
+    .createHash('sha256')
+    .update(authState.codeVerifier)
+    .digest('base64url');
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes,
+    state: authState.state,
+    nonce: authState.nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  return { url: `${discovery.authorization_endpoint}?${params}`, authState };
+}
+
+/**
+ * Verify an id_token's signature (RS256 or ES256) against the provider's keys
+ */
+async function verifyIdTokenSignature(idToken: string, jwksUri: string): Promise<boolean> {
+  const [headerEncoded, payloadEncoded, signatureEncoded] = idToken.split('.');
+  const header = JSON.parse(Buffer.from(headerEncoded, 'base64url').toString());
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+    return false;
+  }
+
+  let keys = await getSigningKeys(jwksUri);
+  let jwk = keys.find((key) => key.kid === header.kid);
+  if (!jwk) {
+    keys = await getSigningKeys(jwksUri, true);
+    jwk = keys.find((key) => key.kid === header.kid);
+  }
+  if (!jwk) {
+    return false;
+  }
+
+  return crypto.verify(
+    'sha256',
+    Buffer.from(`${headerEncoded}.${payloadEncoded}`),
+    { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signatureEncoded, 'base64url')
+  );
+}
+
+/**
+ * Finish a login: exchange the code and validate the returned id_token
+ * @param config - Provider settings
+ * @param code - Authorization code from the callback
+ * @param authState - Values saved when the login started
+ * @param redirectUri - Callback URL used for the authorization request
+ * @returns Validated id_token claims
+ */
+export async function exchangeAuthorizationCode(
+  config: OidcConfig,
+  code: string,
+  authState: OidcAuthState,
+  redirectUri: string
+): Promise<OidcClaims> {
+  const discovery = await discover(config);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: authState.codeVerifier,
+    client_id: config.clientId,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const response = await fetch(discovery.token_endpoint, { method: 'POST', headers, body });
+  if (!response.ok) {
+    throw new Error(`OIDC token request failed with status ${response.status}`);
+  }
+
+  const { id_token: idToken } = await response.json();
+  if (!idToken || !(await verifyIdTokenSignature(idToken, discovery.jwks_uri))) {
+    throw new Error('Invalid id_token signature');
+  }
+
+  const claims: OidcClaims = JSON.parse(
+    Buffer.from(idToken.split('.')[1], 'base64url').toString()
+  );
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss.replace(/\/$/, '') !== config.issuer) {
+    throw new Error('id_token issuer mismatch');
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw new Error('id_token audience mismatch');
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('id_token has expired');
+  }
+  if (claims.nonce !== authState.nonce) {
+    throw new Error('id_token nonce mismatch');
+  }
+
+  return claims;
+}
+
+/**
+ * Find or create the local user for a provider identity
+ * Identities are linked to existing accounts only through a verified email;
+ * new accounts are created unless OIDC_ALLOW_SIGNUP=false
+ * @param issuer - Provider issuer
+ * @param claims - Validated id_token claims
+ * @returns The user, or null if the identity cannot be linked
+ */
+export async function findOrCreateOidcUser(issuer: string, claims: OidcClaims) {
+  const identity = await prisma.externalIdentity.findUnique({
+    where: { provider_subject: { provider: issuer, subject: claims.sub } },
+    include: { user: true },
+  });
+
+  if (identity) {
+    return identity.user;
+  }
+
+  const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+  if (!claims.email || !emailVerified) {
+    return null;
+  }
+
+  let user = await prisma.user.findUnique({
+    where: { email: claims.email },
+  });
+
+  if (!user) {
+    if (process.env.OIDC_ALLOW_SIGNUP === 'false') {
+      return null;
+    }
+
+    user = await prisma.user.create({
+      data: {
+        id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        email: claims.email,
+        // No usable password; the user can set one with "Forgot password"
+        password: '!',
+        name: claims.name || null,
+        emailVerifiedAt: new Date(),
+      },
+    });
+  } else if (!user.emailVerifiedAt) {
+    // Nobody proved ownership of the unverified local account, so whoever set
+    // it up may not be the address owner
+    user = await claimUnverifiedAccount(user.id);
+  }
+
+  await prisma.externalIdentity.create({
+    data: {
+      userId: user.id,
+      provider: issuer,
+      subject: claims.sub,
+      email: claims.email,
+    },
+  });
+
+  return user;
+}
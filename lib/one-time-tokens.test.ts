@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { consumeOneTimeToken, createOneTimeToken } from '@/lib/one-time-tokens';
+
+// In-memory stand-in for the one_time_tokens table
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>;
+
+  const rows: Row[] = [];
+  let nextId = 0;
+  const matches = (row: Row, where: Row) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+
+  const oneTimeToken = {
+    async findUnique({ where }: { where: Row }) {
+      return rows.find((row) => matches(row, where)) ?? null;
+    },
+    async create({ data }: { data: Row }) {
+      const row = { id: `token_${++nextId}`, usedAt: null, ...data };
+      rows.push(row);
+      return row;
+    },
+    // Finds and writes in one step, like a single UPDATE statement
+    async updateMany({ where, data }: { where: Row; data: Row }) {
+      const hit = rows.filter((row) => matches(row, where));
+      hit.forEach((row) => Object.assign(row, data));
+      return { count: hit.length };
+    },
+  };
+
+  return {
+    rows,
+    prisma: {
+      oneTimeToken,
+      async $transaction(operations: Promise<unknown>[]) {
+        return Promise.all(operations);
+      },
+    },
+  };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma }));
+
+beforeEach(() => {
+  db.rows.length = 0;
+});
+
+describe('consumeOneTimeToken', () => {
+  it('returns the owner once and then refuses the token', async () => {
+    const token = await createOneTimeToken('user_1', 'PASSWORD_RESET', 3600);
+
+    expect(await consumeOneTimeToken(token, 'PASSWORD_RESET')).toBe('user_1');
+    expect(await consumeOneTimeToken(token, 'PASSWORD_RESET')).toBeNull();
+  });
+
+  it('lets only one of two concurrent requests consume a token', async () => {
+    const token = await createOneTimeToken('user_1', 'MAGIC_LINK', 3600);
+
+    const results = await Promise.all([
+      consumeOneTimeToken(token, 'MAGIC_LINK'),
+      consumeOneTimeToken(token, 'MAGIC_LINK'),
+    ]);
+
+    expect(results.filter((userId) => userId === 'user_1')).toHaveLength(1);
+    expect(results).toContain(null);
+  });
+
+  it('refuses tokens made for another purpose without using them up', async () => {
+    const token = await createOneTimeToken('user_1', 'EMAIL_VERIFICATION', 3600);
+
+    expect(await consumeOneTimeToken(token, 'PASSWORD_RESET')).toBeNull();
+    expect(await consumeOneTimeToken(token, 'EMAIL_VERIFICATION')).toBe('user_1');
+  });
+
+  it('refuses expired and unknown tokens', async () => {
+    const token = await createOneTimeToken('user_1', 'PASSWORD_RESET', 3600);
+    db.rows[0].expiresAt = new Date(Date.now() - 1000);
+
+    expect(await consumeOneTimeToken(token, 'PASSWORD_RESET')).toBeNull();
+    expect(await consumeOneTimeToken('unknown', 'PASSWORD_RESET')).toBeNull();
+  });
+});
+
+describe('createOneTimeToken', () => {
+  it('invalidates outstanding tokens of the same purpose only', async () => {
+    const first = await createOneTimeToken('user_1', 'PASSWORD_RESET', 3600);
+    const link = await createOneTimeToken('user_1', 'MAGIC_LINK', 3600);
+    const second = await createOneTimeToken('user_1', 'PASSWORD_RESET', 3600);
+
+    expect(await consumeOneTimeToken(first, 'PASSWORD_RESET')).toBeNull();
+    expect(await consumeOneTimeToken(second, 'PASSWORD_RESET')).toBe('user_1');
+    expect(await consumeOneTimeToken(link, 'MAGIC_LINK')).toBe('user_1');
+  });
+});
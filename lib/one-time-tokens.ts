@@ -0,0 +1,67 @@
+/**
+ * Single-use tokens delivered by email (password reset and verification links)
+ * Tokens are random, stored hashed, expire, and can be consumed only once
+ */
+
+import { prisma } from '@/lib/db';
+import { generateOpaqueToken, hashToken } from '@/lib/auth';
+import { TokenPurpose } from '@prisma/client';
+
+/**
+ * Create a token for a user, invalidating any outstanding token of the same purpose
+ * @param userId - Token owner
+ * @param purpose - What the token may be used for
+ * @param expiresIn - Lifetime in seconds
+ * @returns Raw token to put in the emailed link
+ */
+export async function createOneTimeToken(
+  userId: string,
+  purpose: TokenPurpose,
+  expiresIn: number
+): Promise<string> {
+  const token = generateOpaqueToken();
+
+  await prisma.$transaction([
+    prisma.oneTimeToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.oneTimeToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Consume a token
+ * @param token - Raw token from the link
+ * @param purpose - Expected purpose
+ * @returns Owner's user id, or null if the token is unknown, used or expired
+ */
+export async function consumeOneTimeToken(
+  token: string,
+  purpose: TokenPurpose
+): Promise<string | null> {
+  const record = await prisma.oneTimeToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt < new Date()) {
+    return null;
+  }
+
+  // Mark as used atomically so the same link cannot be redeemed twice
+  const claimed = await prisma.oneTimeToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return claimed.count === 1 ? record.userId : null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Password reset links
+ * Used by the forgot-password flow and by admins forcing a reset
+ */
+
+import { createOneTimeToken } from '@/lib/one-time-tokens';
+import { sendMail } from '@/lib/mail';
+import { passwordResetEmail } from '@/lib/emails';
+
+/**
+ * Email a password reset link to a user
+ * @param user - Recipient
+ * @param appUrl - Base URL for the link
+ */
+export async function sendPasswordResetEmail(
+  user: { id: string; email: string },
+  appUrl: string
+): Promise<void> {
+  const expiresIn = parseInt(process.env.PASSWORD_RESET_EXPIRE_IN || '3600');
+  const token = await createOneTimeToken(user.id, 'PASSWORD_RESET', expiresIn);
+  const resetUrl = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail(passwordResetEmail(user.email, resetUrl, Math.round(expiresIn / 60)));
+}
@@ -0,0 +1,107 @@
+/**
+ * Personal access tokens
+ * Long-lived, revocable API tokens for scripts and integrations.
+ * Tokens look like pat_<random>; only their SHA-256 hash is stored
+ */
+
+import { prisma } from '@/lib/db';
+import { generateOpaqueToken, hashToken, verifyToken, JWTPayload } from '@/lib/auth';
+import { PatScope } from '@prisma/client';
+
+export const PAT_PREFIX = 'pat_';
+
+// Only write lastUsedAt when it is older than this, to avoid a write per request
+const LAST_USED_THROTTLE_MS = 5 * 60 * 1000;
+
+/**
+ * Create a personal access token
+ * @param userId - Token owner
+ * @param name - Label shown in the token list
+ * @param scope - READ or WRITE
+ * @param expiresAt - Optional expiry
+ * @returns Raw token (shown once) and the stored record
+ */
+export async function createPersonalAccessToken(
+  userId: string,
+  name: string,
+  scope: PatScope,
+  expiresAt: Date | null
+) {
+  const token = `${PAT_PREFIX}${generateOpaqueToken()}`;
+
+  const record = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name,
+      scope,
+      expiresAt,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, PAT_PREFIX.length + 6),
+    },
+    select: {
+      id: true,
+      name: true,
+      prefix: true,
+      scope: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return { token, record };
+}
+
+/**
+ * Verify a personal access token
+ * @param token - Raw pat_ token
+ * @returns Payload with the token's scope, or null if unknown, revoked or expired
+ */
+export async function verifyPersonalAccessToken(token: string): Promise<JWTPayload | null> {
+  const record = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { email: true, disabledAt: true } } },
+  });
+
+  if (
+    !record ||
+    record.revokedAt ||
+    record.user.disabledAt ||
+    (record.expiresAt && record.expiresAt < new Date())
+  ) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+    await prisma.personalAccessToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return {
+    userId: record.userId,
+    email: record.user.email,
+    scope: record.scope,
+  };
+}
+
+/**
+ * Verify a bearer token that may be either a session access token or a personal access token
+ * @param token - Token from the Authorization header
+ * @returns Decoded payload or null if invalid
+ */
+export async function verifyApiToken(token: string): Promise<JWTPayload | null> {
+  if (token.startsWith(PAT_PREFIX)) {
+    return verifyPersonalAccessToken(token);
+  }
+  return verifyToken(token);
+}
+
+/**
+ * Check whether a verified token may perform an action
+ * Session tokens have full access; read-only personal access tokens cannot write
+ */
+export function hasTokenScope(payload: JWTPayload, access: 'read' | 'write'): boolean {
+  return access === 'read' || !payload.scope || payload.scope === 'WRITE';
+}
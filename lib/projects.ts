@@ -0,0 +1,49 @@
+/**
+ * Projects
+ * Named task lists owned by one user. Tasks without a project are in the Inbox.
+ */
+
+import { prisma } from '@/lib/db';
+
+/**
+ * List a user's projects with task counts, plus the Inbox's pending count
+ * @param userId - Project owner
+ * @param includeArchived - Also return archived projects
+ */
+export async function listProjects(userId: string, includeArchived: boolean) {
+  const [projects, pendingCounts] = await Promise.all([
+    prisma.project.findMany({
+      where: { userId, ...(includeArchived ? {} : { archivedAt: null }) },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { tasks: true } } },
+    }),
+    prisma.task.groupBy({
+      by: ['projectId'],
+      where: { userId, status: 'PENDING' },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const pendingByProject = new Map(
+    pendingCounts.map((row) => [row.projectId, row._count._all])
+  );
+
+  return {
+    projects: projects.map(({ _count, ...project }) => ({
+      ...project,
+      taskCount: _count.tasks,
+      pendingCount: pendingByProject.get(project.id) ?? 0,
+    })),
+    inbox: { pendingCount: pendingByProject.get(null) ?? 0 },
+  };
+}
+
+/**
+ * Check that a project id sent with a task belongs to the user
+ */
+export async function isUserProject(userId: string, projectId: string): Promise<boolean> {
+  const count = await prisma.project.count({
+    where: { id: projectId, userId },
+  });
+  return count === 1;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareRanks,
+  evenlySpacedRanks,
+  isValidRank,
+  rankBetween,
+  RANK_MAX_LENGTH,
+} from '@/lib/ranks';
+
+function expectBetween(rank: string, before: string | null, after: string | null) {
+  expect(isValidRank(rank)).toBe(true);
+  if (before !== null) expect(compareRanks(before, rank)).toBe(-1);
+  if (after !== null) expect(compareRanks(rank, after)).toBe(-1);
+}
+
+describe('isValidRank', () => {
+  it('accepts base-36 digits without a trailing zero', () => {
+    expect(isValidRank('i')).toBe(true);
+    expect(isValidRank('0a1')).toBe(true);
+  });
+
+  it('rejects empty, trailing-zero and non-rank values', () => {
+    expect(isValidRank('')).toBe(false);
+    expect(isValidRank('a0')).toBe(false);
+    expect(isValidRank('A')).toBe(false);
+    expect(isValidRank(5)).toBe(false);
+  });
+});
+
+describe('rankBetween', () => {
+  it('starts an empty list in the middle', () => {
+    expect(rankBetween(null, null)).toBe('i');
+  });
+
+  it('places ranks before, after and between neighbours', () => {
+    expectBetween(rankBetween(null, 'i'), null, 'i');
+    expectBetween(rankBetween('i', null), 'i', null);
+    expectBetween(rankBetween('a', 'b'), 'a', 'b');
+    expectBetween(rankBetween('a', 'a1'), 'a', 'a1');
+    expectBetween(rankBetween('az', 'b'), 'az', 'b');
+    expectBetween(rankBetween('01', '1'), '01', '1');
+  });
+
+  it('always finds room next to the ends of the range', () => {
+    let first = 'i';
+    let last = 'i';
+    for (let i = 0; i < 50; i++) {
+      const before = rankBetween(null, first);
+      expectBetween(before, null, first);
+      first = before;
+
+      const after = rankBetween(last, null);
+      expectBetween(after, last, null);
+      last = after;
+    }
+  });
+
+  it('keeps splitting the same gap', () => {
+    let low = 'a';
+    const high = 'b';
+    for (let i = 0; i < 100; i++) {
+      const rank = rankBetween(low, high);
+      expectBetween(rank, low, high);
+      low = rank;
+    }
+  });
+
+  it('throws when the neighbours are out of order or equal', () => {
+    expect(() => rankBetween('b', 'a')).toThrow();
+    expect(() => rankBetween('a', 'a')).toThrow();
+  });
+});
+
+describe('evenlySpacedRanks', () => {
+  it('returns short, valid, strictly increasing ranks', () => {
+    for (const count of [0, 1, 2, 35, 36, 1000]) {
+      const ranks = evenlySpacedRanks(count);
+      expect(ranks).toHaveLength(count);
+      ranks.forEach((rank, i) => {
+        expect(isValidRank(rank)).toBe(true);
+        expect(rank.length).toBeLessThan(RANK_MAX_LENGTH);
+        if (i > 0) expect(compareRanks(ranks[i - 1], rank)).toBe(-1);
+      });
+    }
+  });
+
+  it('leaves room between neighbours', () => {
+    const ranks = evenlySpacedRanks(100);
+    for (let i = 1; i < ranks.length; i++) {
+      expectBetween(rankBetween(ranks[i - 1], ranks[i]), ranks[i - 1], ranks[i]);
+    }
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Fractional ranks for manual ordering
+ * A rank is a base-36 fraction written as its digits after the point ("i" is
+ * 0.5), so ranks sort as plain strings and there is always room for a new one
+ * between any two
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Ranks longer than this trigger a rebalance of the list
+export const RANK_MAX_LENGTH = 24;
+
+/**
+ * Check whether a value is a well-formed rank
+ * A trailing zero would leave no room for a rank just below it
+ */
+export function isValidRank(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-z]*[1-9a-z]$/.test(value);
+}
+
+/**
+ * Compare two ranks, for Array.prototype.sort
+ */
+export function compareRanks(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Digits strictly between two fractions
+ * @param a - Lower bound digits ('' is zero)
+ * @param b - Upper bound digits, or null for one
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the shared prefix, treating missing digits of a as zeros
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Adjacent first digits: b's first digit alone fits if b continues past it
+  if (b !== null && b.length > 1) return b[0];
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Rank that sorts between two neighbours
+ * @param before - Rank of the item that should come first, or null for the start
+ * @param after - Rank of the item that should come next, or null for the end
+ * @throws If before does not sort below after
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && compareRanks(before, after) >= 0) {
+    throw new Error(`Rank ${before} does not come before ${after}`);
+  }
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * Short, evenly spaced ranks for a list of items, in order
+ * @param count - Number of items
+ */
+export function evenlySpacedRanks(count: number): string[] {
+  // One digit more than the count needs leaves room to insert between any two
+  const width = Math.ceil(Math.log(count + 1) / Math.log(DIGITS.length)) + 1;
+  const span = DIGITS.length ** width;
+
+  return Array.from({ length: count }, (_, i) =>
+    Math.round(((i + 1) * span) / (count + 1))
+      .toString(36)
+      .padStart(width, '0')
+      .replace(/0+$/, '')
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Login brute-force protection
+ * Counts failed attempts per account and per IP. After a few free attempts each
+ * further failure doubles the wait before the next try, and reaching the maximum
+ * locks the key for the lockout period.
+ *
+ * Counters live in a RateLimitStore chosen by RATE_LIMIT_STORE:
+ * - memory: per-process map, fine for a single server (default)
+ * - postgres: the rate_limits table, shared by every serverless instance
+ */
+
+import { prisma } from '@/lib/db';
+
+export interface RateLimitEntry {
+  failures: number;
+  lastFailureAt: Date;
+}
+
+export interface RateLimitStore {
+  /** Current counter, or null if there is none or it is older than windowMs */
+  get(key: string, windowMs: number): Promise<RateLimitEntry | null>;
+  /** Record a failure, restarting the count if the previous one is older than windowMs */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  /** Forget a key (after a successful login) */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-memory store for local development and single-instance deployments
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  async get(key: string, windowMs: number): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.lastFailureAt.getTime() > windowMs) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const current = await this.get(key, windowMs);
+    const entry = { failures: (current?.failures ?? 0) + 1, lastFailureAt: new Date() };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Postgres-backed store so limits hold across serverless instances
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async get(key: string, windowMs: number): Promise<RateLimitEntry | null> {
+    const entry = await prisma.rateLimit.findUnique({ where: { key } });
+    if (!entry || Date.now() - entry.lastFailureAt.getTime() > windowMs) {
+      return null;
+    }
+    return { failures: entry.failures, lastFailureAt: entry.lastFailureAt };
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    // Drop a stale counter first so the increment below starts from zero
+    await prisma.rateLimit.deleteMany({
+      where: { key, lastFailureAt: { lt: new Date(Date.now() - windowMs) } },
+    });
+
+    const entry = await prisma.rateLimit.upsert({
+      where: { key },
+      create: { key, failures: 1, lastFailureAt: new Date() },
+      update: { failures: { increment: 1 }, lastFailureAt: new Date() },
+    });
+
+    return { failures: entry.failures, lastFailureAt: entry.lastFailureAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimit.deleteMany({ where: { key } });
+  }
+}
+
+interface LimitPolicy {
+  // Failures allowed before backoff starts
+  freeAttempts: number;
+  // Failures that trigger a full lockout
+  maxFailures: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the next attempt is allowed
+  retryAfter: number;
+  // True when the key hit maxFailures rather than a backoff delay
+  locked: boolean;
+}
+
+const BASE_DELAY_SECONDS = 1;
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the configured rate limit store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === 'postgres'
+        ? new PostgresRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the rate limit store (e.g. with a fresh memory store in tests)
+ */
+export function setRateLimitStore(next: RateLimitStore | null) {
+  store = next;
+}
+
+function getLockoutSeconds(): number {
+  return parseInt(process.env.LOGIN_LOCKOUT_SECONDS || '900');
+}
+
+function getAccountPolicy(): LimitPolicy {
+  return {
+    freeAttempts: 3,
+    maxFailures: parseInt(process.env.LOGIN_MAX_FAILURES || '5'),
+  };
+}
+
+function getIpPolicy(): LimitPolicy {
+  // Many users can share an address (offices, NAT), so IPs get more room
+  return {
+    freeAttempts: 10,
+    maxFailures: parseInt(process.env.LOGIN_IP_MAX_FAILURES || '50'),
+  };
+}
+
+/**
+ * Seconds a key must wait after its latest failure
+ */
+function getDelaySeconds(failures: number, policy: LimitPolicy): number {
+  const lockout = getLockoutSeconds();
+  if (failures >= policy.maxFailures) {
+    return lockout;
+  }
+  if (failures <= policy.freeAttempts) {
+    return 0;
+  }
+  return Math.min(BASE_DELAY_SECONDS * 2 ** (failures - policy.freeAttempts - 1), lockout);
+}
+
+async function checkKey(key: string, policy: LimitPolicy): Promise<RateLimitResult> {
+  const entry = await getRateLimitStore().get(key, getLockoutSeconds() * 1000);
+  if (!entry) {
+    return { allowed: true, retryAfter: 0, locked: false };
+  }
+
+  const delayMs = getDelaySeconds(entry.failures, policy) * 1000;
+  const waitMs = entry.lastFailureAt.getTime() + delayMs - Date.now();
+  if (waitMs <= 0) {
+    return { allowed: true, retryAfter: 0, locked: false };
+  }
+
+  return {
+    allowed: false,
+    retryAfter: Math.ceil(waitMs / 1000),
+    locked: entry.failures >= policy.maxFailures,
+  };
+}
+
+function accountKey(account: string): string {
+  return `account:${account.trim().toLowerCase()}`;
+}
+
+function ipKey(ipAddress: string | null): string {
+  return `ip:${ipAddress || 'unknown'}`;
+}
+
+/**
+ * Check whether a login attempt may proceed
+ * @param ipAddress - Client IP
+ * @param account - Email (or other account identifier) being signed in to
+ * @returns The most restrictive of the IP and account limits
+ */
+export async function checkLoginRateLimit(
+  ipAddress: string | null,
+  account: string
+): Promise<RateLimitResult> {
+  const [byIp, byAccount] = await Promise.all([
+    checkKey(ipKey(ipAddress), getIpPolicy()),
+    checkKey(accountKey(account), getAccountPolicy()),
+  ]);
+
+  return byIp.retryAfter >= byAccount.retryAfter ? byIp : byAccount;
+}
+
+/**
+ * Record a failed login for both the IP and the account
+ */
+export async function recordLoginFailure(
+  ipAddress: string | null,
+  account: string
+): Promise<void> {
+  const windowMs = getLockoutSeconds() * 1000;
+  await Promise.all([
+    getRateLimitStore().increment(ipKey(ipAddress), windowMs),
+    getRateLimitStore().increment(accountKey(account), windowMs),
+  ]);
+}
+
+/**
+ * Clear the account counter after a successful login
+ * The IP counter is left alone so one valid account cannot reset it
+ */
+export async function resetLoginFailures(account: string): Promise<void> {
+  await getRateLimitStore().reset(accountKey(account));
+}
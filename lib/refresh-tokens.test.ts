@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeToken } from '@/lib/auth';
+import { issueAuthTokens, rotateRefreshToken } from '@/lib/refresh-tokens';
+
+// In-memory stand-in for the tables token rotation uses
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>;
+
+  const matches = (row: Row, where: Row) =>
+    Object.entries(where).every(([key, value]) => value === undefined || row[key] === value);
+
+  function table(prefix: string) {
+    const rows: Row[] = [];
+    let nextId = 0;
+    return {
+      rows,
+      async create({ data }: { data: Row }) {
+        const row = { id: `${prefix}_${++nextId}`, revokedAt: null, ...data };
+        rows.push(row);
+        return row;
+      },
+      async update({ where, data }: { where: Row; data: Row }) {
+        return Object.assign(rows.find((row) => matches(row, where))!, data);
+      },
+      // Finds and writes in one step, like a single UPDATE statement
+      async updateMany({ where, data }: { where: Row; data: Row }) {
+        const hit = rows.filter((row) => matches(row, where));
+        hit.forEach((row) => Object.assign(row, data));
+        return { count: hit.length };
+      },
+    };
+  }
+
+  const users = table('user');
+  const sessions = table('session');
+  const refreshTokens = table('refresh');
+
+  return {
+    users,
+    sessions,
+    refreshTokens,
+    prisma: {
+      user: users,
+      session: sessions,
+      refreshToken: {
+        ...refreshTokens,
+        async findUnique({ where }: { where: Row }) {
+          const row = refreshTokens.rows.find((r) => matches(r, where));
+          return row
+            ? {
+                ...row,
+                user: users.rows.find((user) => user.id === row.userId),
+                session: sessions.rows.find((session) => session.id === row.sessionId),
+              }
+            : null;
+        },
+      },
+    },
+  };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma }));
+
+const metadata = { userAgent: 'vitest', ipAddress: '127.0.0.1' };
+
+beforeEach(() => {
+  db.users.rows.length = 0;
+  db.sessions.rows.length = 0;
+  db.refreshTokens.rows.length = 0;
+  db.users.rows.push({
+    id: 'user_1',
+    email: 'ada@example.com',
+    name: 'Ada',
+    emailVerifiedAt: new Date(),
+    role: 'USER',
+  });
+});
+
+async function signIn() {
+  return issueAuthTokens({ id: 'user_1', email: 'ada@example.com' }, metadata);
+}
+
+describe('rotateRefreshToken', () => {
+  it('replaces the presented token with a new pair for the same session', async () => {
+    const { refreshToken } = await signIn();
+
+    const result = await rotateRefreshToken(refreshToken);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+
+    expect(result.tokens.refreshToken).not.toBe(refreshToken);
+    expect(result.user).toMatchObject({ id: 'user_1', emailVerified: true });
+    expect(decodeToken(result.tokens.accessToken)).toMatchObject({
+      userId: 'user_1',
+      sessionId: db.sessions.rows[0].id,
+    });
+
+    const [old, next] = db.refreshTokens.rows;
+    expect(old.revokedAt).toBeInstanceOf(Date);
+    expect(old.replacedBy).toBe(next.id);
+    expect(next.sessionId).toBe(old.sessionId);
+  });
+
+  it('revokes the session when a rotated token is presented again', async () => {
+    const { refreshToken } = await signIn();
+    const rotated = await rotateRefreshToken(refreshToken);
+    if (rotated.status !== 'ok') throw new Error('first rotation failed');
+
+    expect(await rotateRefreshToken(refreshToken)).toEqual({ status: 'reused' });
+    expect(db.sessions.rows[0].revokedAt).toBeInstanceOf(Date);
+
+    // The legitimate holder of the newer token is signed out too
+    expect(await rotateRefreshToken(rotated.tokens.refreshToken)).toEqual({ status: 'invalid' });
+  });
+
+  it('lets only one of two concurrent refreshes win', async () => {
+    const { refreshToken } = await signIn();
+
+    const results = await Promise.all([
+      rotateRefreshToken(refreshToken),
+      rotateRefreshToken(refreshToken),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['ok', 'reused']);
+    expect(db.sessions.rows[0].revokedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects unknown and expired tokens without revoking anything', async () => {
+    const { refreshToken } = await signIn();
+
+    expect(await rotateRefreshToken('not-a-token')).toEqual({ status: 'invalid' });
+
+    db.refreshTokens.rows[0].expiresAt = new Date(Date.now() - 1000);
+    expect(await rotateRefreshToken(refreshToken)).toEqual({ status: 'invalid' });
+    expect(db.sessions.rows[0].revokedAt).toBeNull();
+    expect(db.refreshTokens.rows[0].revokedAt).toBeNull();
+  });
+
+  it('rejects tokens of a signed-out session', async () => {
+    const { refreshToken } = await signIn();
+    db.sessions.rows[0].revokedAt = new Date();
+
+    expect(await rotateRefreshToken(refreshToken)).toEqual({ status: 'invalid' });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Refresh token persistence
+ * Issues opaque refresh tokens, rotates them on every use and revokes the
+ * whole session when an already-used token is replayed
+ */
+
+import { prisma } from '@/lib/db';
+import {
+  createToken,
+  generateOpaqueToken,
+  hashToken,
+  getAccessTokenExpiry,
+  getRefreshTokenExpiry,
+} from '@/lib/auth';
+import { createSession, revokeSession, SessionMetadata } from '@/lib/sessions';
+import { Role } from '@prisma/client';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface TokenUser {
+  id: string;
+  email: string;
+}
+
+export type RotateResult =
+  | {
+      status: 'ok';
+      user: TokenUser & { name: string | null; emailVerified: boolean; role: Role };
+      tokens: AuthTokens;
+    }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+/**
+ * Persist a new refresh token for a session
+ * @param userId - Owner of the token
+ * @param sessionId - Session the token belongs to
+ * @returns The raw refresh token and its row id
+ */
+export async function issueRefreshToken(
+  userId: string,
+  sessionId: string
+): Promise<{ id: string; token: string }> {
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + getRefreshTokenExpiry() * 1000);
+
+  const record = await prisma.refreshToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      sessionId,
+      userId,
+      expiresAt,
+    },
+  });
+
+  return { id: record.id, token };
+}
+
+/**
+ * Start a new session and issue its access and refresh tokens
+ * Used by login and register, and by admins impersonating a user
+ * @param user - Authenticated user
+ * @param metadata - Device information for the session
+ * @param options - impersonatorId: admin signing in as the user
+ * @returns Access and refresh tokens
+ */
+export async function issueAuthTokens(
+  user: TokenUser,
+  metadata: SessionMetadata,
+  options: { impersonatorId?: string } = {}
+): Promise<AuthTokens> {
+  const impersonatorId = options.impersonatorId;
+  const sessionId = await createSession(user.id, metadata, impersonatorId);
+  const accessToken = createToken(
+    { userId: user.id, email: user.email, sessionId, impersonatorId },
+    getAccessTokenExpiry()
+  );
+  const { token: refreshToken } = await issueRefreshToken(user.id, sessionId);
+
+  // Impersonation is not a login by the user
+  if (!impersonatorId) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+
+  return { accessToken, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new token pair
+ * The presented token is revoked and replaced; presenting a token that was
+ * already rotated revokes its whole session
+ * @param token - Raw refresh token from the client
+ * @returns Rotation result
+ */
+export async function rotateRefreshToken(token: string): Promise<RotateResult> {
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true, session: true },
+  });
+
+  if (!record || record.session.revokedAt) {
+    return { status: 'invalid' };
+  }
+
+  if (record.revokedAt) {
+    // A rotated token was replayed: assume it was stolen and kill the chain
+    await revokeSession(record.sessionId);
+    return { status: 'reused' };
+  }
+
+  if (record.expiresAt < new Date()) {
+    return { status: 'invalid' };
+  }
+
+  // Claim the token atomically so two concurrent refreshes cannot both win
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: record.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (claimed.count === 0) {
+    await revokeSession(record.sessionId);
+    return { status: 'reused' };
+  }
+
+  const next = await issueRefreshToken(record.userId, record.sessionId);
+  await prisma.refreshToken.update({
+    where: { id: record.id },
+    data: { replacedBy: next.id },
+  });
+
+  const accessToken = createToken(
+    {
+      userId: record.user.id,
+      email: record.user.email,
+      sessionId: record.sessionId,
+      impersonatorId: record.session.impersonatorId ?? undefined,
+    },
+    getAccessTokenExpiry()
+  );
+
+  return {
+    status: 'ok',
+    user: {
+      id: record.user.id,
+      email: record.user.email,
+      name: record.user.name,
+      emailVerified: !!record.user.emailVerifiedAt,
+      role: record.user.role,
+    },
+    tokens: { accessToken, refreshToken: next.token },
+  };
+}
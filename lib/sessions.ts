@@ -0,0 +1,153 @@
+/**
+ * Server-side session management
+ * Each login creates a session; access and refresh tokens are bound to it
+ * so a device can be signed out before its tokens expire
+ */
+
+import { prisma } from '@/lib/db';
+import { NextRequest } from 'next/server';
+
+// Only write lastSeenAt when it is older than this, to avoid a write per request
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+
+export interface SessionMetadata {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Read device information for a new session from the request
+ * @param req - Incoming request
+ * @returns User agent and client IP
+ */
+export function getSessionMetadata(req: NextRequest): SessionMetadata {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  const ipAddress =
+    forwardedFor?.split(',')[0].trim() || req.headers.get('x-real-ip') || null;
+
+  return {
+    userAgent: req.headers.get('user-agent'),
+    ipAddress,
+  };
+}
+
+/**
+ * Create a session for a user
+ * @param userId - Owner of the session
+ * @param metadata - Device information
+ * @param impersonatorId - Admin user id for impersonation sessions
+ * @returns Created session id
+ */
+export async function createSession(
+  userId: string,
+  metadata: SessionMetadata,
+  impersonatorId: string | null = null
+): Promise<string> {
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+      impersonatorId,
+    },
+  });
+
+  return session.id;
+}
+
+/**
+ * Check that a session is still active and record activity on it
+ * @param sessionId - Session id from the token
+ * @returns True if the session exists and has not been revoked
+ */
+export async function touchSession(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+  });
+
+  if (!session || session.revokedAt) {
+    return false;
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_THROTTLE_MS) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * List active sessions for a user, most recently used first
+ * @param userId - Session owner
+ */
+export async function listSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { lastSeenAt: 'desc' },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastSeenAt: true,
+      impersonatorId: true,
+    },
+  });
+}
+
+/**
+ * Revoke a single session and its refresh tokens
+ * @param sessionId - Session to revoke
+ * @param userId - Owner, when the caller must only touch their own sessions
+ * @returns True if a session was revoked
+ */
+export async function revokeSession(
+  sessionId: string,
+  userId?: string
+): Promise<boolean> {
+  const now = new Date();
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+    data: { revokedAt: now },
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  await prisma.refreshToken.updateMany({
+    where: { sessionId, revokedAt: null },
+    data: { revokedAt: now },
+  });
+
+  return true;
+}
+
+/**
+ * Revoke every session of a user
+ * @param userId - Session owner
+ * @param exceptSessionId - Session to keep (e.g. the current device)
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const now = new Date();
+  const sessionFilter = exceptSessionId ? { not: exceptSessionId } : undefined;
+
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null, id: sessionFilter },
+    data: { revokedAt: now },
+  });
+
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null, sessionId: sessionFilter },
+    data: { revokedAt: now },
+  });
+
+  return result.count;
+}
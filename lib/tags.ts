@@ -0,0 +1,42 @@
+/**
+ * Task tags
+ * Tags belong to one user; tasks reference them through the task_tags join table
+ */
+
+import { prisma } from '@/lib/db';
+
+/**
+ * List a user's tags with the number of tasks using each
+ */
+export async function listTags(userId: string) {
+  const tags = await prisma.tag.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+    include: { _count: { select: { tasks: true } } },
+  });
+
+  return tags.map(({ _count, ...tag }) => ({ ...tag, taskCount: _count.tasks }));
+}
+
+/**
+ * Validate tag ids sent with a task
+ * @param userId - Task owner
+ * @param tagIds - Value of the request's `tags` field
+ * @returns Unique tag ids, or null if the value is not an array of the user's tag ids
+ */
+export async function resolveTagIds(userId: string, tagIds: unknown): Promise<string[] | null> {
+  if (!Array.isArray(tagIds) || !tagIds.every((id) => typeof id === 'string')) {
+    return null;
+  }
+
+  const uniqueIds = [...new Set(tagIds as string[])];
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const count = await prisma.tag.count({
+    where: { userId, id: { in: uniqueIds } },
+  });
+
+  return count === uniqueIds.length ? uniqueIds : null;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Task } from '@prisma/client';
+import { parseTaskSort } from '@/lib/tasks';
+import {
+  decodeTaskCursor,
+  encodeTaskCursor,
+  taskCursorWhere,
+  taskSortOrderBy,
+} from '@/lib/task-order';
+
+// Only the cursor and sort helpers are tested here; they never touch the database
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+const createdAt = new Date('2026-03-01T10:00:00.123Z');
+
+const task = {
+  id: 'task_1',
+  title: 'Write tests',
+  priority: 'HIGH',
+  dueAt: null,
+  position: 'i',
+  createdAt,
+  updatedAt: createdAt,
+} as Task;
+
+function sort(value: string) {
+  const keys = parseTaskSort(value);
+  if (!keys) throw new Error(`Invalid sort ${value}`);
+  return keys;
+}
+
+function encode(value: unknown) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('taskSortOrderBy', () => {
+  it('adds newest first and id as tie-breakers', () => {
+    expect(taskSortOrderBy(sort('-priority,dueAt'))).toEqual([
+      { priority: 'desc' },
+      { dueAt: { sort: 'asc', nulls: 'last' } },
+      { createdAt: 'desc' },
+      { id: 'asc' },
+    ]);
+  });
+
+  it('does not repeat createdAt when the sort already uses it', () => {
+    expect(taskSortOrderBy(sort('createdAt'))).toEqual([{ createdAt: 'asc' }, { id: 'asc' }]);
+  });
+});
+
+describe('task cursors', () => {
+  it('round-trip the last task of a page', () => {
+    const keys = sort('-priority,dueAt');
+    expect(decodeTaskCursor(keys, encodeTaskCursor(keys, task))).toEqual([
+      'HIGH',
+      null,
+      createdAt.toISOString(),
+      'task_1',
+    ]);
+  });
+
+  it('are rejected for a different sort', () => {
+    const cursor = encodeTaskCursor(sort('title'), task);
+    expect(decodeTaskCursor(sort('-title'), cursor)).toBeNull();
+    expect(decodeTaskCursor(sort('title,dueAt'), cursor)).toBeNull();
+  });
+
+  it('are rejected when malformed', () => {
+    const keys = sort('title');
+    expect(decodeTaskCursor(keys, 'not a cursor')).toBeNull();
+    expect(decodeTaskCursor(keys, encode({ sort: 'title', values: ['a'] }))).toBeNull();
+    expect(decodeTaskCursor(keys, encode({ sort: 'title', values: ['a', 1, 'b'] }))).toBeNull();
+    expect(decodeTaskCursor(keys, encode(null))).toBeNull();
+  });
+});
+
+describe('taskCursorWhere', () => {
+  it('continues after the cursor on each order key in turn', () => {
+    const start = createdAt;
+    const end = new Date(createdAt.getTime() + 1);
+
+    expect(taskCursorWhere(sort('title'), ['b', createdAt.toISOString(), 'task_1'])).toEqual({
+      OR: [
+        { AND: [{ title: { gt: 'b' } }] },
+        { AND: [{ title: 'b' }, { createdAt: { lt: start } }] },
+        {
+          AND: [
+            { title: 'b' },
+            { createdAt: { gte: start, lt: end } },
+            { id: { gt: 'task_1' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('lists later priorities instead of comparing the enum', () => {
+    const where = taskCursorWhere(sort('priority'), ['MEDIUM', createdAt.toISOString(), 'task_1']);
+    expect(where.OR?.[0]).toEqual({ AND: [{ priority: { in: ['HIGH', 'URGENT'] } }] });
+  });
+
+  it('skips the branch when nothing can follow the last priority', () => {
+    const where = taskCursorWhere(sort('priority'), ['URGENT', createdAt.toISOString(), 'task_1']);
+    expect(where.OR).toHaveLength(2);
+    expect(where.OR?.[0]).toEqual({
+      AND: [{ priority: 'URGENT' }, { createdAt: { lt: createdAt } }],
+    });
+  });
+
+  it('keeps empty due dates last', () => {
+    const dueAt = '2026-04-01T00:00:00.000Z';
+    const afterDue = taskCursorWhere(sort('dueAt'), [dueAt, createdAt.toISOString(), 'task_1']);
+    expect(afterDue.OR?.[0]).toEqual({
+      AND: [
+        {
+          OR: [{ dueAt: { gte: new Date(Date.parse(dueAt) + 1) } }, { dueAt: null }],
+        },
+      ],
+    });
+
+    // Past the last dated task only other undated tasks remain
+    const afterEmpty = taskCursorWhere(sort('dueAt'), [null, createdAt.toISOString(), 'task_1']);
+    expect(afterEmpty.OR?.[0]).toEqual({
+      AND: [{ dueAt: null }, { createdAt: { lt: createdAt } }],
+    });
+  });
+});
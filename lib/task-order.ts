@@ -0,0 +1,282 @@
+/**
+ * Task order
+ * Sorting task lists by field, cursors for paging through a sorted list, and
+ * the manual order: each task's position is a fractional rank (see lib/ranks).
+ * Moving a task only rewrites its own rank; a user's ranks are respaced once
+ * one grows long
+ */
+
+import { Prisma, Task } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { compareRanks, evenlySpacedRanks, rankBetween, RANK_MAX_LENGTH } from '@/lib/ranks';
+import { TASK_PRIORITIES, TaskSortField, TaskSortKey } from '@/lib/tasks';
+
+// Sort fields a task can leave empty; those tasks come last in either direction
+const NULLABLE_SORT_FIELDS: TaskSortField[] = ['dueAt'];
+
+const DATE_SORT_FIELDS: TaskSortField[] = ['createdAt', 'updatedAt', 'dueAt'];
+
+type OrderKey = { field: TaskSortField | 'id'; order: 'asc' | 'desc' };
+
+/**
+ * Sort keys plus the tie-breakers that make the order total: newest first, then id
+ */
+function totalOrder(keys: TaskSortKey[]): OrderKey[] {
+  return [
+    ...keys,
+    ...(keys.some((key) => key.field === 'createdAt')
+      ? []
+      : [{ field: 'createdAt', order: 'desc' } as const]),
+    { field: 'id', order: 'asc' },
+  ];
+}
+
+/**
+ * Prisma orderBy for parsed sort keys
+ * Ties on every key fall back to newest first
+ */
+export function taskSortOrderBy(keys: TaskSortKey[]): Prisma.TaskOrderByWithRelationInput[] {
+  return totalOrder(keys).map(({ field, order }) =>
+    field !== 'id' && NULLABLE_SORT_FIELDS.includes(field)
+      ? { [field]: { sort: order, nulls: 'last' } }
+      : { [field]: order }
+  );
+}
+
+// Cursor contents: the sort it belongs to and the last task's value for each order key
+type TaskCursor = { sort: string; values: (string | null)[] };
+
+function sortSignature(keys: TaskSortKey[]): string {
+  return keys.map(({ field, order }) => (order === 'desc' ? `-${field}` : field)).join(',');
+}
+
+/**
+ * Opaque cursor that continues a sorted list after the given task
+ */
+export function encodeTaskCursor(keys: TaskSortKey[], task: Task): string {
+  const values = totalOrder(keys).map(({ field }) => {
+    const value = task[field];
+    return value instanceof Date ? value.toISOString() : value;
+  });
+  const cursor: TaskCursor = { sort: sortSignature(keys), values };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Read a cursor from the `cursor` query parameter
+ * @returns The last task's order values, or null if the cursor is malformed or
+ *   was made for a different sort
+ */
+export function decodeTaskCursor(keys: TaskSortKey[], value: string): (string | null)[] | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    const values = cursor?.values;
+    if (
+      cursor?.sort !== sortSignature(keys) ||
+      !Array.isArray(values) ||
+      values.length !== totalOrder(keys).length ||
+      !values.every((v) => v === null || typeof v === 'string')
+    ) {
+      return null;
+    }
+    return values;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Condition for one order key: tasks with the cursor's value, or tasks after it
+ * Prisma truncates timestamps to milliseconds, so a date value stands for the
+ * whole millisecond it falls in
+ */
+function cursorCondition(
+  { field, order }: OrderKey,
+  value: string | null,
+  match: 'equal' | 'after'
+): Prisma.TaskWhereInput | null {
+  const nullable = field !== 'id' && NULLABLE_SORT_FIELDS.includes(field);
+
+  if (value === null) {
+    // Empty values come last, so nothing but other empty values can follow
+    return match === 'equal' ? { [field]: null } : null;
+  }
+
+  let condition: Prisma.TaskWhereInput | null;
+  if (field !== 'id' && DATE_SORT_FIELDS.includes(field)) {
+    const start = new Date(value);
+    const end = new Date(start.getTime() + 1);
+    condition =
+      match === 'equal'
+        ? { [field]: { gte: start, lt: end } }
+        : { [field]: order === 'asc' ? { gte: end } : { lt: start } };
+  } else if (field === 'priority') {
+    // Enums only compare for equality; later priorities are listed instead
+    const index = TASK_PRIORITIES.indexOf(value as (typeof TASK_PRIORITIES)[number]);
+    const later = TASK_PRIORITIES.filter((_, i) => (order === 'asc' ? i > index : i < index));
+    condition =
+      match === 'equal'
+        ? { priority: value as (typeof TASK_PRIORITIES)[number] }
+        : later.length > 0
+          ? { priority: { in: [...later] } }
+          : null;
+  } else {
+    condition =
+      match === 'equal'
+        ? { [field]: value }
+        : { [field]: order === 'asc' ? { gt: value } : { lt: value } };
+  }
+
+  if (match === 'after' && nullable) {
+    return condition ? { OR: [condition, { [field]: null }] } : { [field]: null };
+  }
+  return condition;
+}
+
+/**
+ * Where condition for the tasks that come after a cursor in a sorted list
+ * @param keys - The active sort
+ * @param values - Decoded cursor values from decodeTaskCursor
+ */
+export function taskCursorWhere(
+  keys: TaskSortKey[],
+  values: (string | null)[]
+): Prisma.TaskWhereInput {
+  const order = totalOrder(keys);
+
+  // Equal on every earlier key and after the cursor on this one
+  const branches = order.flatMap((key, index) => {
+    const after = cursorCondition(key, values[index], 'after');
+    if (!after) return [];
+    const equal = order
+      .slice(0, index)
+      .map((earlier, i) => cursorCondition(earlier, values[i], 'equal')!);
+    return [{ AND: [...equal, after] }];
+  });
+
+  return { OR: branches };
+}
+
+// Manual order, with ties (from concurrent writes) broken newest first
+export const taskRankOrder = [
+  { position: 'asc' },
+  { createdAt: 'desc' },
+] satisfies Prisma.TaskOrderByWithRelationInput[];
+
+// rebalanced: the user's ranks were respaced to make room, so other tasks moved too
+export type TaskRankResult = { position: string; rebalanced: boolean } | { error: string };
+
+/**
+ * Rank for a new task, which goes to the top of the list
+ */
+export async function firstTaskRank(userId: string): Promise<string> {
+  const first = await prisma.task.findFirst({
+    where: { userId },
+    orderBy: taskRankOrder,
+    select: { position: true },
+  });
+  return rankBetween(null, first?.position ?? null);
+}
+
+/**
+ * Give all of a user's tasks short, evenly spaced ranks in their current order
+ */
+export async function rebalanceTaskRanks(userId: string): Promise<void> {
+  const tasks = await prisma.task.findMany({
+    where: { userId },
+    orderBy: taskRankOrder,
+    select: { id: true, updatedAt: true },
+  });
+  const ranks = evenlySpacedRanks(tasks.length);
+
+  await prisma.$transaction(
+    tasks.map((task, index) =>
+      prisma.task.update({
+        where: { id: task.id },
+        // Respacing is not an edit, so it keeps the task's updatedAt (the
+        // tasks trigger in scripts/setup-database.sql leaves rank-only changes alone)
+        data: { position: ranks[index], updatedAt: task.updatedAt },
+      })
+    )
+  );
+}
+
+/**
+ * Rebalance a user's ranks if a newly assigned one is too long
+ * @returns Whether the ranks were rebalanced
+ */
+export async function rebalanceTaskRanksIfNeeded(userId: string, rank: string): Promise<boolean> {
+  if (rank.length <= RANK_MAX_LENGTH) return false;
+  await rebalanceTaskRanks(userId);
+  return true;
+}
+
+/**
+ * Work out the rank that puts a task between two neighbours
+ * With one neighbour the task goes right next to it in the user's whole list,
+ * so moves within a filtered or paged list keep their place around hidden tasks
+ * @param userId - Owner of the tasks
+ * @param taskId - Task being moved
+ * @param neighbours - Values of the request's `beforeId` (the task that should
+ *   come right before it) and `afterId` (the task that should come right after it)
+ */
+export async function resolveTaskRank(
+  userId: string,
+  taskId: string,
+  neighbours: { beforeId?: unknown; afterId?: unknown }
+): Promise<TaskRankResult> {
+  const ids = [neighbours.beforeId ?? null, neighbours.afterId ?? null];
+  if (!ids.every((id) => id === null || (typeof id === 'string' && id !== taskId))) {
+    return { error: 'beforeId and afterId must be ids of your other tasks' };
+  }
+
+  const [beforeId, afterId] = ids as (string | null)[];
+  if (!beforeId && !afterId) {
+    return { error: 'Send beforeId, afterId or both' };
+  }
+
+  // Equal neighbouring ranks leave no room between them; respace once and retry
+  let rebalanced = false;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const found = await prisma.task.findMany({
+      where: { userId, id: { in: [beforeId, afterId].filter((id) => id !== null) } },
+      select: { id: true, position: true },
+    });
+    let before = found.find((task) => task.id === beforeId) ?? null;
+    let after = found.find((task) => task.id === afterId) ?? null;
+
+    if ((beforeId && !before) || (afterId && !after)) {
+      return { error: 'Neighbouring task not found' };
+    }
+
+    if (before && !after) {
+      after = await prisma.task.findFirst({
+        where: { userId, id: { not: taskId }, position: { gt: before.position } },
+        orderBy: { position: 'asc' },
+        select: { id: true, position: true },
+      });
+    } else if (after && !before) {
+      before = await prisma.task.findFirst({
+        where: { userId, id: { not: taskId }, position: { lt: after.position } },
+        orderBy: { position: 'desc' },
+        select: { id: true, position: true },
+      });
+    }
+
+    const order = before && after ? compareRanks(before.position, after.position) : -1;
+    if (order < 0) {
+      return {
+        position: rankBetween(before?.position ?? null, after?.position ?? null),
+        rebalanced,
+      };
+    }
+    if (order > 0) {
+      return { error: 'beforeId must come before afterId' };
+    }
+
+    await rebalanceTaskRanks(userId);
+    rebalanced = true;
+  }
+
+  return { error: 'Failed to place the task' };
+}
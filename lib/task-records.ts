@@ -0,0 +1,41 @@
+/**
+ * Shape of tasks returned by the API
+ * Routes load tasks with taskInclude and pass them through serializeTask so
+ * related records come back in the same form everywhere
+ */
+
+import { Prisma } from '@prisma/client';
+
+export const taskInclude = {
+  project: { select: { id: true, name: true, color: true, icon: true } },
+  workflowStatus: { select: { id: true, name: true, color: true, countsAsDone: true } },
+  tags: {
+    include: { tag: { select: { id: true, name: true, color: true } } },
+    orderBy: { tag: { name: 'asc' } },
+  },
+  checklistItems: {
+    select: { id: true, title: true, completed: true },
+    orderBy: { position: 'asc' },
+  },
+} satisfies Prisma.TaskInclude;
+
+export type TaskRecord = Prisma.TaskGetPayload<{ include: typeof taskInclude }>;
+
+/**
+ * Flatten join rows into the response shape
+ * ({ ...task, project: { id, name, color, icon } | null,
+ *   workflowStatus: { id, name, color, countsAsDone } | null, tags: [{ id, name, color }],
+ *   checklist: [{ id, title, completed }], progress: { completed, total } })
+ */
+export function serializeTask(task: TaskRecord) {
+  const { tags, checklistItems, ...rest } = task;
+  return {
+    ...rest,
+    tags: tags.map(({ tag }) => tag),
+    checklist: checklistItems,
+    progress: {
+      completed: checklistItems.filter((item) => item.completed).length,
+      total: checklistItems.length,
+    },
+  };
+}
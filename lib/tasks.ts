@@ -0,0 +1,186 @@
+/**
+ * Task field definitions shared by the API routes and the UI
+ */
+
+// Done category of a task, derived from its workflow status
+export const TASK_STATUSES = ['PENDING', 'COMPLETED'] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const TASK_PRIORITIES = ['NONE', 'LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  NONE: 'No priority',
+  LOW: 'Low',
+  MEDIUM: 'Medium',
+  HIGH: 'High',
+  URGENT: 'Urgent',
+};
+
+// Fields GET /api/tasks can sort by; position is the manual order
+export const TASK_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'title',
+  'priority',
+  'dueAt',
+  'position',
+] as const;
+
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+
+export interface TaskSortKey {
+  field: TaskSortField;
+  order: 'asc' | 'desc';
+}
+
+/**
+ * Check whether a value is a valid task status category
+ */
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return TASK_STATUSES.includes(value as TaskStatus);
+}
+
+/**
+ * Check whether a value is a valid task priority
+ */
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return TASK_PRIORITIES.includes(value as TaskPriority);
+}
+
+/**
+ * Check whether a value is a sortable task field
+ */
+export function isTaskSortField(value: unknown): value is TaskSortField {
+  return TASK_SORT_FIELDS.includes(value as TaskSortField);
+}
+
+/**
+ * Parse a sort parameter such as "-priority,dueAt,title"
+ * Fields sort ascending unless prefixed with "-"
+ * @returns The sort keys in order, or null if a field is unknown or repeated
+ */
+export function parseTaskSort(value: string): TaskSortKey[] | null {
+  const keys = value.split(',').map((part) => {
+    const name = part.trim();
+    const field = name.startsWith('-') ? name.slice(1) : name;
+    return isTaskSortField(field)
+      ? { field, order: name.startsWith('-') ? ('desc' as const) : ('asc' as const) }
+      : null;
+  });
+
+  const fields = keys.map((key) => key?.field);
+  if (keys.some((key) => key === null) || new Set(fields).size !== fields.length) {
+    return null;
+  }
+  return keys as TaskSortKey[];
+}
+
+/**
+ * Check whether a value is null or a parseable date string
+ */
+export function isValidDueAt(value: unknown): value is string | null {
+  return value === null || (typeof value === 'string' && !isNaN(Date.parse(value)));
+}
+
+// Tag as embedded in task responses
+export interface TagSummary {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// Colors offered for tags and projects; any #rrggbb value is accepted by the API
+export const LABEL_COLORS = [
+  '#64748b',
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+];
+
+export const TAG_NAME_MAX_LENGTH = 32;
+
+/**
+ * Check whether a value is a #rrggbb color
+ */
+export function isValidHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+// Icons a project can use; components/ProjectIcon.tsx maps them to lucide icons
+export const PROJECT_ICONS = [
+  'folder',
+  'briefcase',
+  'home',
+  'book',
+  'code',
+  'heart',
+  'star',
+  'rocket',
+  'shopping-cart',
+  'graduation-cap',
+] as const;
+
+export type ProjectIconName = (typeof PROJECT_ICONS)[number];
+
+export const PROJECT_NAME_MAX_LENGTH = 64;
+
+// Project as embedded in task responses
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  color: string;
+  icon: ProjectIconName;
+}
+
+/**
+ * Check whether a value is a supported project icon
+ */
+export function isProjectIcon(value: unknown): value is ProjectIconName {
+  return PROJECT_ICONS.includes(value as ProjectIconName);
+}
+
+export const CHECKLIST_ITEM_MAX_LENGTH = 200;
+export const CHECKLIST_MAX_ITEMS = 100;
+
+// Checklist item as embedded in task responses, in checklist order
+export interface ChecklistItemSummary {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
+export const WORKFLOW_STATUS_NAME_MAX_LENGTH = 32;
+
+// Workflow status as embedded in task responses
+export interface WorkflowStatusSummary {
+  id: string;
+  name: string;
+  color: string;
+  countsAsDone: boolean;
+}
+
+// Workflow status with the statuses a task in it may move to
+export interface WorkflowStatusDefinition extends WorkflowStatusSummary {
+  // Empty: any status
+  allowedNextIds: string[];
+}
+
+/**
+ * Check whether a task in one workflow status may move to another
+ */
+export function canMoveToStatus(from: WorkflowStatusDefinition, toId: string): boolean {
+  return from.id === toId || from.allowedNextIds.length === 0 || from.allowedNextIds.includes(toId);
+}
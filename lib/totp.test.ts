@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  currentTotpStep,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  verifyTotp,
+} from '@/lib/totp';
+
+// lib/auth pulls in the session store; TOTP itself never touches the database
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+// RFC 6238 test secret: the ASCII bytes of "12345678901234567890"
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+// A time well inside step 1000000, so the window on either side is whole steps
+const NOW = 1000000 * 30 * 1000 + 10 * 1000;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('base32', () => {
+  it('encodes the RFC 4648 test vectors', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('decodes case-insensitively, ignoring padding and spaces', () => {
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow();
+  });
+});
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    // The RFC lists 8 digits; 6-digit codes are their last six
+    expect(generateTotp(SECRET, currentTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(SECRET, currentTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(SECRET, currentTotpStep(2000000000 * 1000))).toBe('279037');
+  });
+});
+
+describe('verifyTotp', () => {
+  const step = currentTotpStep(NOW);
+
+  it('accepts the current code and one step either side', () => {
+    vi.useFakeTimers({ now: NOW });
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step))).toBe(step);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 1))).toBe(step - 1);
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step + 1))).toBe(step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    vi.useFakeTimers({ now: NOW });
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 2))).toBeNull();
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step + 2))).toBeNull();
+  });
+
+  it('rejects the last used step and earlier ones', () => {
+    vi.useFakeTimers({ now: NOW });
+    const code = generateTotp(SECRET, step);
+    expect(verifyTotp(SECRET, code, step)).toBeNull();
+    expect(verifyTotp(SECRET, code, step + 1)).toBeNull();
+    expect(verifyTotp(SECRET, generateTotp(SECRET, step - 1), step - 1)).toBeNull();
+    expect(verifyTotp(SECRET, code, step - 1)).toBe(step);
+  });
+
+  it('ignores spaces but rejects anything that is not six digits', () => {
+    vi.useFakeTimers({ now: NOW });
+    const code = generateTotp(SECRET, step);
+    expect(verifyTotp(SECRET, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(step);
+    expect(verifyTotp(SECRET, code.slice(1))).toBeNull();
+    expect(verifyTotp(SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('recovery codes', () => {
+  it('are unique and formatted as xxxxx-xxxxx', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+  });
+
+  it('hash the same regardless of case and formatting', () => {
+    expect(hashRecoveryCode('ABCDE-12345')).toBe(hashRecoveryCode('abcde12345'));
+    expect(hashRecoveryCode('abcde-12345')).not.toBe(hashRecoveryCode('abcde-12346'));
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Time-based one-time passwords (RFC 6238) for two-factor authentication
+ * HMAC-SHA1, 6 digits, 30 second steps - the defaults every authenticator app supports
+ */
+
+import * as crypto from 'crypto';
+import { hashToken } from '@/lib/auth';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Accept codes from one step before/after to tolerate clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding and spaces ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[=\s]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns Base32 encoded 160-bit secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Compute the HOTP code for a counter (RFC 4226)
+ */
+function hotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Current TOTP time step
+ */
+export function currentTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Generate the TOTP code for a secret at a time step
+ * @param secret - Base32 encoded secret
+ * @param step - Time step (defaults to now)
+ */
+export function generateTotp(secret: string, step: number = currentTotpStep()): string {
+  return hotp(base32Decode(secret), step);
+}
+
+/**
+ * Verify a TOTP code
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param lastUsedStep - Step of the last accepted code; it and earlier steps are rejected to stop replays
+ * @returns The matched time step, or null if the code is invalid
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const step = currentTotpStep();
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = step + offset;
+    if (lastUsedStep != null && candidate <= lastUsedStep) {
+      continue;
+    }
+    const expected = generateTotp(secret, candidate);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI understood by authenticator apps
+ * @param secret - Base32 encoded secret
+ * @param accountName - Usually the user's email
+ * @param issuer - Name shown in the authenticator app
+ */
+export function buildOtpauthUri(
+  secret: string,
+  accountName: string,
+  issuer: string = process.env.MFA_ISSUER || 'Task Manager'
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_STEP_SECONDS.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params}`;
+}
+
+/**
+ * Generate a set of recovery codes formatted as xxxxx-xxxxx
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Hash a recovery code for storage, ignoring case and formatting
+ */
+export function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[^0-9a-f]/g, ''));
+}
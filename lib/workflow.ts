@@ -0,0 +1,203 @@
+/**
+ * Workflow statuses
+ * Each user has an ordered list of task states. Task.status mirrors whether a
+ * task's state counts as done, so PENDING/COMPLETED filters keep working.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { canMoveToStatus, TaskStatus, WorkflowStatusDefinition } from '@/lib/tasks';
+
+// Statuses every user starts with
+const DEFAULT_STATUSES = [
+  { name: 'To Do', color: '#64748b', countsAsDone: false },
+  { name: 'In Progress', color: '#3b82f6', countsAsDone: false },
+  { name: 'Done', color: '#22c55e', countsAsDone: true },
+];
+
+const statusSelect = {
+  id: true,
+  name: true,
+  color: true,
+  position: true,
+  countsAsDone: true,
+  transitions: { select: { toStatusId: true } },
+} satisfies Prisma.WorkflowStatusSelect;
+
+export type WorkflowStatus = WorkflowStatusDefinition & { position: number };
+
+/**
+ * Category a task in the status belongs to
+ */
+export function statusCategory(status: { countsAsDone: boolean }): TaskStatus {
+  return status.countsAsDone ? 'COMPLETED' : 'PENDING';
+}
+
+async function findWorkflow(userId: string): Promise<WorkflowStatus[]> {
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { userId },
+    orderBy: { position: 'asc' },
+    select: statusSelect,
+  });
+
+  return statuses.map(({ transitions, ...status }) => ({
+    ...status,
+    allowedNextIds: transitions.map((transition) => transition.toStatusId),
+  }));
+}
+
+/**
+ * Load a user's workflow in order, creating the default statuses on first use
+ * Tasks from before the user had a workflow are assigned at the same time:
+ * PENDING ones to To Do and COMPLETED ones to Done
+ */
+export async function getWorkflow(userId: string): Promise<WorkflowStatus[]> {
+  const workflow = await findWorkflow(userId);
+  if (workflow.length > 0) {
+    return workflow;
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const created = [];
+      for (const [position, status] of DEFAULT_STATUSES.entries()) {
+        created.push(await tx.workflowStatus.create({ data: { ...status, position, userId } }));
+      }
+
+      for (const category of ['PENDING', 'COMPLETED'] as const) {
+        const target = created.find((status) => statusCategory(status) === category)!;
+        await tx.task.updateMany({
+          where: { userId, statusId: null, status: category },
+          data: { statusId: target.id },
+        });
+      }
+    });
+  } catch (error) {
+    // A concurrent request created the defaults first
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+  }
+
+  return findWorkflow(userId);
+}
+
+/**
+ * List a user's workflow with the number of tasks in each status
+ */
+export async function listWorkflow(userId: string) {
+  const [workflow, counts] = await Promise.all([
+    getWorkflow(userId),
+    prisma.task.groupBy({
+      by: ['statusId'],
+      where: { userId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const countByStatus = new Map(counts.map((row) => [row.statusId, row._count._all]));
+  return workflow.map((status) => ({ ...status, taskCount: countByStatus.get(status.id) ?? 0 }));
+}
+
+export type StatusChange = { statusId: string; status: TaskStatus } | { error: string };
+
+/**
+ * Work out the workflow status a task ends up in
+ * @param workflow - The user's statuses from getWorkflow
+ * @param currentStatusId - The task's status, or null for a new task
+ * @param target - A statusId, or a PENDING/COMPLETED category, which picks the
+ *   first status of that category the task may move to
+ */
+export function resolveStatusChange(
+  workflow: WorkflowStatus[],
+  currentStatusId: string | null,
+  target: { statusId?: string; status?: TaskStatus }
+): StatusChange {
+  const current = workflow.find((status) => status.id === currentStatusId);
+  const allowed = (status: WorkflowStatus) => !current || canMoveToStatus(current, status.id);
+
+  if (target.statusId !== undefined) {
+    const next = workflow.find((status) => status.id === target.statusId);
+    if (!next) {
+      return { error: 'Status not found' };
+    }
+    if (!allowed(next)) {
+      return { error: `Tasks in "${current!.name}" cannot move to "${next.name}"` };
+    }
+    return { statusId: next.id, status: statusCategory(next) };
+  }
+
+  const category = target.status ?? 'PENDING';
+  if (current && statusCategory(current) === category) {
+    return { statusId: current.id, status: category };
+  }
+
+  const next = workflow.find((status) => statusCategory(status) === category && allowed(status));
+  if (!next) {
+    return {
+      error: `Tasks in "${current?.name}" cannot move to a ${
+        category === 'COMPLETED' ? 'done' : 'open'
+      } status`,
+    };
+  }
+  return { statusId: next.id, status: category };
+}
+
+/**
+ * Validate the statuses a status may lead to
+ * @param workflow - The user's statuses
+ * @param statusId - Status being configured, or null for a new one
+ * @param value - Value of the request's `allowedNextIds` field
+ * @returns Unique status ids, or null if the value is not a list of other statuses in the workflow
+ */
+export function resolveAllowedNextIds(
+  workflow: WorkflowStatus[],
+  statusId: string | null,
+  value: unknown
+): string[] | null {
+  if (!Array.isArray(value) || !value.every((id) => typeof id === 'string')) {
+    return null;
+  }
+
+  const ids = [...new Set(value as string[])];
+  const valid = ids.every((id) => id !== statusId && workflow.some((status) => status.id === id));
+  return valid ? ids : null;
+}
+
+/**
+ * Check that a workflow keeps at least one open and one done status
+ * New tasks start in the first open status, and ticking a task off needs a done one
+ */
+export function hasOpenAndDoneStatus(statuses: { countsAsDone: boolean }[]): boolean {
+  return (
+    statuses.some((status) => !status.countsAsDone) &&
+    statuses.some((status) => status.countsAsDone)
+  );
+}
+
+/**
+ * Put a user's workflow in the given order
+ * @returns false if statusIds is not exactly the user's status ids
+ */
+export async function reorderWorkflow(userId: string, statusIds: unknown): Promise<boolean> {
+  if (!Array.isArray(statusIds) || !statusIds.every((id) => typeof id === 'string')) {
+    return false;
+  }
+
+  const workflow = await getWorkflow(userId);
+  const currentIds = new Set(workflow.map((status) => status.id));
+  if (
+    statusIds.length !== currentIds.size ||
+    new Set(statusIds).size !== statusIds.length ||
+    !statusIds.every((id) => currentIds.has(id))
+  ) {
+    return false;
+  }
+
+  await prisma.$transaction(
+    statusIds.map((id, position) =>
+      prisma.workflowStatus.update({ where: { id }, data: { position } })
+    )
+  );
+  return true;
+}
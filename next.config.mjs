@@ -12,16 +12,22 @@ const nextConfig = {
       {
         source: '/api/:path*',
         headers: [
-          {
-            key: 'Content-Type',
-            value: 'application/json',
-          },
           {
             key: 'X-Content-Type-Options',
             value: 'nosniff',
           },
         ],
       },
+      // The data export is a zip download, not JSON
+      {
+        source: '/api/:path((?!me/export$).*)',
+        headers: [
+          {
+            key: 'Content-Type',
+            value: 'application/json',
+          },
+        ],
+      },
     ];
   },
 }
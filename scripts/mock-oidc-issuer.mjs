@@ -0,0 +1,189 @@
+/**
+ * Mock OpenID Connect issuer for local development and testing
+ * Implements discovery, an authorize page, the token endpoint (with PKCE)
+ * and JWKS. Every client id and secret is accepted.
+ *
+ * Usage: pnpm mock-oidc, then set
+ *   OIDC_ISSUER=http://localhost:9400
+ *   OIDC_CLIENT_ID=task-manager
+ *   OIDC_CLIENT_SECRET=secret
+ *
+ * MOCK_OIDC_PORT changes the port. MOCK_OIDC_AUTO_LOGIN=<email> skips the
+ * sign-in form and approves every request as that (verified) user.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+
+const port = parseInt(process.env.MOCK_OIDC_PORT || '9400');
+const issuer = `http://localhost:${port}`;
+const autoLogin = process.env.MOCK_OIDC_AUTO_LOGIN;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' };
+
+// Authorization codes waiting to be exchanged
+const codes = new Map();
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(new URLSearchParams(data)));
+  });
+}
+
+function signIdToken(claims) {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+function escapeHtml(value) {
+  return String(value ?? '').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Issue a code for an approved request and send the browser back to the client
+function approve(res, request, user) {
+  const code = crypto.randomBytes(16).toString('base64url');
+  codes.set(code, { ...request, user, expiresAt: Date.now() + 60_000 });
+
+  const redirect = new URL(request.redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (request.state) redirect.searchParams.set('state', request.state);
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+function renderLoginForm(res, request) {
+  const hidden = Object.entries(request)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('');
+
+  res.writeHead(200, { 'Content-Type': 'text/html' });
+  res.end(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+  <h1>Mock OIDC sign-in</h1>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" value="user@example.com" required></label></p>
+    <p><label>Name<br><input name="name" value="Test User"></label></p>
+    <p><label>Subject (sub)<br><input name="sub" placeholder="defaults to the email"></label></p>
+    <p><label><input type="checkbox" name="email_verified" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+    <button type="submit" name="deny" value="1">Deny</button>
+  </form>
+</body></html>`);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, issuer);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    });
+  }
+
+  if (url.pathname === '/jwks') {
+    return sendJson(res, 200, { keys: [jwk] });
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'GET') {
+    const request = Object.fromEntries(url.searchParams);
+    if (!request.client_id || !request.redirect_uri || request.response_type !== 'code') {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    if (autoLogin) {
+      return approve(res, request, { sub: autoLogin, email: autoLogin, email_verified: true });
+    }
+    return renderLoginForm(res, request);
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'POST') {
+    const form = await readBody(req);
+    const { email, name, sub, email_verified: verified, deny, ...request } = Object.fromEntries(form);
+
+    if (deny) {
+      const redirect = new URL(request.redirect_uri);
+      redirect.searchParams.set('error', 'access_denied');
+      if (request.state) redirect.searchParams.set('state', request.state);
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+
+    return approve(res, request, {
+      sub: sub || email,
+      email,
+      name: name || undefined,
+      email_verified: verified === 'on',
+    });
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readBody(req);
+    const entry = codes.get(form.get('code'));
+    codes.delete(form.get('code'));
+
+    let clientId = form.get('client_id');
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Basic ')) {
+      clientId = decodeURIComponent(
+        Buffer.from(authorization.slice(6), 'base64').toString().split(':')[0]
+      );
+    }
+
+    const challenge = crypto
+      .createHash('sha256')
+      .update(form.get('code_verifier') || '')
+      .digest('base64url');
+
+    if (
+      !entry ||
+      entry.expiresAt < Date.now() ||
+      form.get('grant_type') !== 'authorization_code' ||
+      entry.client_id !== clientId ||
+      entry.redirect_uri !== form.get('redirect_uri') ||
+      (entry.code_challenge && entry.code_challenge !== challenge)
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return sendJson(res, 200, {
+      access_token: crypto.randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: signIdToken({
+        iss: issuer,
+        aud: entry.client_id,
+        iat: now,
+        exp: now + 300,
+        nonce: entry.nonce,
+        ...entry.user,
+      }),
+    });
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(port, () => {
+  console.log(`Mock OIDC issuer listening on ${issuer}`);
+});
@@ -7,26 +7,301 @@ CREATE TABLE IF NOT EXISTS "users" (
   email TEXT UNIQUE NOT NULL,
   password TEXT NOT NULL,
   name TEXT,
+  email_verified_at TIMESTAMP,
+  mfa_secret TEXT,
+  mfa_enabled_at TIMESTAMP,
+  mfa_last_used_step INTEGER,
+  deletion_scheduled_at TIMESTAMP,
+  role TEXT NOT NULL DEFAULT 'USER' CHECK (role IN ('USER', 'ADMIN')),
+  disabled_at TIMESTAMP,
+  password_reset_required BOOLEAN NOT NULL DEFAULT FALSE,
+  last_login_at TIMESTAMP,
+  task_sort TEXT,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Add email verification to databases created before it existed
+-- Accounts from before verification count as verified; the backfill only runs
+-- when the column is added, so re-running the script keeps new sign-ups unverified
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'email_verified_at'
+  ) THEN
+    ALTER TABLE "users" ADD COLUMN email_verified_at TIMESTAMP;
+    UPDATE "users" SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+  END IF;
+END $$;
+
+-- Add two-factor authentication columns to existing databases
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS mfa_secret TEXT;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS mfa_enabled_at TIMESTAMP;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS mfa_last_used_step INTEGER;
+
+-- Add scheduled account deletion to existing databases
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS deletion_scheduled_at TIMESTAMP;
+
+-- Add roles and admin-managed account state to existing databases
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'USER' CHECK (role IN ('USER', 'ADMIN'));
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS password_reset_required BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS last_login_at TIMESTAMP;
+
+-- Add the saved dashboard sort to existing databases
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS task_sort TEXT;
+
+-- Create projects table (task lists; deleting one moves its tasks to the Inbox)
+CREATE TABLE IF NOT EXISTS "projects" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  archived_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create workflow statuses table (a user's task states, in board order)
+CREATE TABLE IF NOT EXISTS "workflow_statuses" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  counts_as_done BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name)
+);
+
+-- Create workflow transitions table (allowed moves; none from a status means any)
+CREATE TABLE IF NOT EXISTS "workflow_transitions" (
+  from_status_id TEXT NOT NULL REFERENCES "workflow_statuses"(id) ON DELETE CASCADE,
+  to_status_id TEXT NOT NULL REFERENCES "workflow_statuses"(id) ON DELETE CASCADE,
+  PRIMARY KEY (from_status_id, to_status_id)
+);
+
 -- Create tasks table with foreign key to users
 CREATE TABLE IF NOT EXISTS "tasks" (
   id TEXT PRIMARY KEY,
   title TEXT NOT NULL,
   description TEXT,
   status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'COMPLETED')),
+  priority TEXT NOT NULL DEFAULT 'NONE' CHECK (priority IN ('NONE', 'LOW', 'MEDIUM', 'HIGH', 'URGENT')),
+  due_at TIMESTAMP,
+  due_has_time BOOLEAN NOT NULL DEFAULT FALSE,
+  project_id TEXT REFERENCES "projects"(id) ON DELETE SET NULL,
+  status_id TEXT REFERENCES "workflow_statuses"(id) ON DELETE SET NULL,
+  position TEXT COLLATE "C" NOT NULL,
   user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Add task priority to existing databases
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'NONE' CHECK (priority IN ('NONE', 'LOW', 'MEDIUM', 'HIGH', 'URGENT'));
+
+-- Add due dates to existing databases
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS due_at TIMESTAMP;
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS due_has_time BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Add projects to existing databases
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS project_id TEXT REFERENCES "projects"(id) ON DELETE SET NULL;
+
+-- Add workflow statuses to existing databases: every user without statuses gets
+-- To Do, In Progress and Done, and PENDING/COMPLETED tasks move to To Do/Done
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS status_id TEXT REFERENCES "workflow_statuses"(id) ON DELETE SET NULL;
+
+INSERT INTO "workflow_statuses" (id, user_id, name, color, position, counts_as_done)
+SELECT gen_random_uuid()::text, u.id, d.name, d.color, d.position, d.counts_as_done
+FROM "users" u
+CROSS JOIN (VALUES
+  ('To Do', '#64748b', 0, FALSE),
+  ('In Progress', '#3b82f6', 1, FALSE),
+  ('Done', '#22c55e', 2, TRUE)
+) AS d(name, color, position, counts_as_done)
+WHERE NOT EXISTS (SELECT 1 FROM "workflow_statuses" ws WHERE ws.user_id = u.id);
+
+UPDATE "tasks" t
+SET status_id = (
+  SELECT ws.id FROM "workflow_statuses" ws
+  WHERE ws.user_id = t.user_id AND ws.counts_as_done = (t.status = 'COMPLETED')
+  ORDER BY ws.position
+  LIMIT 1
+)
+WHERE t.status_id IS NULL;
+
+-- Add manual order to existing databases as fractional ranks compared bytewise
+-- (an earlier numeric position column is converted); unranked tasks get
+-- fixed-width ranks, newest first
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS position TEXT;
+ALTER TABLE "tasks" ALTER COLUMN position DROP DEFAULT;
+ALTER TABLE "tasks" ALTER COLUMN position DROP NOT NULL;
+ALTER TABLE "tasks" ALTER COLUMN position TYPE TEXT COLLATE "C" USING position::text;
+
+UPDATE "tasks" t
+SET position = r.rank
+FROM (
+  SELECT id, lpad((row_number() OVER (PARTITION BY user_id ORDER BY created_at DESC))::text, 10, '0') || '1' AS rank
+  FROM "tasks"
+  WHERE position IS NULL OR position !~ '^[0-9a-z]*[1-9a-z]$'
+) r
+WHERE t.id = r.id;
+
+ALTER TABLE "tasks" ALTER COLUMN position SET NOT NULL;
+
+-- Create sessions table (one row per signed-in device)
+CREATE TABLE IF NOT EXISTS "sessions" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  revoked_at TIMESTAMP,
+  impersonator_id TEXT
+);
+
+-- Add admin impersonation to existing databases
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS impersonator_id TEXT;
+
+-- Create refresh tokens table (rotated on every use, grouped by session)
+CREATE TABLE IF NOT EXISTS "refresh_tokens" (
+  id TEXT PRIMARY KEY,
+  token_hash TEXT UNIQUE NOT NULL,
+  session_id TEXT NOT NULL REFERENCES "sessions"(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  replaced_by TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create one-time tokens table (hashed, single-use tokens sent by email)
+CREATE TABLE IF NOT EXISTS "one_time_tokens" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('PASSWORD_RESET', 'EMAIL_VERIFICATION', 'SSO_LOGIN', 'MAGIC_LINK')),
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create recovery codes table (hashed two-factor backup codes)
+CREATE TABLE IF NOT EXISTS "recovery_codes" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, code_hash)
+);
+
+-- Create personal access tokens table (hashed API tokens for scripts)
+CREATE TABLE IF NOT EXISTS "personal_access_tokens" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  prefix TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'READ' CHECK (scope IN ('READ', 'WRITE')),
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create rate limits table (failed login counters, RATE_LIMIT_STORE=postgres)
+CREATE TABLE IF NOT EXISTS "rate_limits" (
+  key TEXT PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Allow SSO login codes and magic links in databases created before they existed
+ALTER TABLE "one_time_tokens" DROP CONSTRAINT IF EXISTS one_time_tokens_purpose_check;
+ALTER TABLE "one_time_tokens" ADD CONSTRAINT one_time_tokens_purpose_check
+  CHECK (purpose IN ('PASSWORD_RESET', 'EMAIL_VERIFICATION', 'SSO_LOGIN', 'MAGIC_LINK'));
+
+-- Create tags table (user-defined task labels)
+CREATE TABLE IF NOT EXISTS "tags" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name)
+);
+
+-- Create task tags table (many-to-many between tasks and tags)
+CREATE TABLE IF NOT EXISTS "task_tags" (
+  task_id TEXT NOT NULL REFERENCES "tasks"(id) ON DELETE CASCADE,
+  tag_id TEXT NOT NULL REFERENCES "tags"(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (task_id, tag_id)
+);
+
+-- Create checklist items table (steps within a task)
+CREATE TABLE IF NOT EXISTS "checklist_items" (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL REFERENCES "tasks"(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create external identities table (OpenID Connect accounts linked to users)
+CREATE TABLE IF NOT EXISTS "external_identities" (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES "users"(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  email TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (provider, subject)
+);
+
+-- Create audit log table (admin actions, kept after users are deleted)
+CREATE TABLE IF NOT EXISTS "audit_logs" (
+  id TEXT PRIMARY KEY,
+  actor_id TEXT NOT NULL,
+  actor_email TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_id TEXT,
+  target_email TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_tasks_user_id ON "tasks"(user_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_status ON "tasks"(status);
 CREATE INDEX IF NOT EXISTS idx_tasks_created_at ON "tasks"(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_priority ON "tasks"(user_id, priority);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_due_at ON "tasks"(user_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_position ON "tasks"(user_id, position);
 CREATE INDEX IF NOT EXISTS idx_users_email ON "users"(email);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON "refresh_tokens"(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON "refresh_tokens"(session_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON "sessions"(user_id);
+CREATE INDEX IF NOT EXISTS idx_one_time_tokens_user_purpose ON "one_time_tokens"(user_id, purpose);
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id ON "personal_access_tokens"(user_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON "tasks"(project_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_status_id ON "tasks"(status_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_statuses_user_position ON "workflow_statuses"(user_id, position);
+CREATE INDEX IF NOT EXISTS idx_workflow_transitions_to_status_id ON "workflow_transitions"(to_status_id);
+CREATE INDEX IF NOT EXISTS idx_projects_user_id ON "projects"(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_tags_tag_id ON "task_tags"(tag_id);
+CREATE INDEX IF NOT EXISTS idx_checklist_items_task_position ON "checklist_items"(task_id, position);
+CREATE INDEX IF NOT EXISTS idx_external_identities_user_id ON "external_identities"(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON "audit_logs"(created_at DESC);
 
 -- Update timestamp function trigger
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -37,6 +312,18 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Tasks: a change to nothing but the manual order keeps the updated_at the
+-- statement wrote, so respacing ranks does not count as an edit
+CREATE OR REPLACE FUNCTION update_tasks_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'position' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'position' - 'updated_at') THEN
+    NEW.updated_at = CURRENT_TIMESTAMP;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
 -- Create triggers for automatic updated_at
 DROP TRIGGER IF EXISTS update_users_updated_at ON "users";
 CREATE TRIGGER update_users_updated_at
@@ -48,4 +335,28 @@ DROP TRIGGER IF EXISTS update_tasks_updated_at ON "tasks";
 CREATE TRIGGER update_tasks_updated_at
   BEFORE UPDATE ON "tasks"
   FOR EACH ROW
+  EXECUTE FUNCTION update_tasks_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tags_updated_at ON "tags";
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON "tags"
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON "projects";
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON "projects"
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_checklist_items_updated_at ON "checklist_items";
+CREATE TRIGGER update_checklist_items_updated_at
+  BEFORE UPDATE ON "checklist_items"
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_workflow_statuses_updated_at ON "workflow_statuses";
+CREATE TRIGGER update_workflow_statuses_updated_at
+  BEFORE UPDATE ON "workflow_statuses"
+  FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();